@@ -1,18 +1,67 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { MediaVersion, Session } from './types';
-import { editImage } from './services/geminiService';
-import { SparklesIcon, DownloadIcon, MicIcon, PlusIcon, ZoomInIcon, ZoomOutIcon, EyeIcon, RefreshCcwIcon, FrogIcon } from './components/icons';
+import { AdjustmentOperation, MediaVersion, Session, ToolCallRecord, TranscriptEntry } from './types';
+import { getActiveProvider, getActiveProviderId, listProviders, setActiveProviderId } from './services/providers/registry';
+import { loadSessions, saveSessions } from './services/storageService';
+import { addChildVersion, addVersionChain, createVersionId, getActiveBranch, getChildren, getLatestDescendant, getLeafCount, getSiblings, indexOfVersion } from './services/versionTree';
+import { compositeWithMask } from './services/maskUtils';
+import { dataUrlToBlob, extractVideoFrame, loadImage } from './services/mediaUtils';
+import { centerCrop, describeOperation, replayOperations } from './services/adjustments';
+import { downloadBlob, exportImage, exportSessionBundle, exportSource, importSessionBundle, versionFileName } from './services/exportService';
+import { createToolRegistry, ToolResult } from './services/toolRegistry';
+import { EDITOR_TOOLS } from './services/editorTools';
+import { BatchItem, exportBatchZip } from './services/batchService';
+import { isCancellation, JobOptions } from './services/jobQueue';
+import { describeStep, fillPlaceholders, findRecipe, listRecipes, placeholdersOf, Recipe, runRecipeSteps, versionForStep } from './services/recipes';
+import { addSessions, createSession, duplicateSession, forkSession, nextSessionNumber, restoreSession, sessionLabel } from './services/sessions';
+import { createEntry } from './services/transcript';
+import { fetchMedia, ingestMedia, isMediaUrl } from './services/ingest';
+import { describeError } from './services/retry';
+import { budgetBlock, meterProvider, recordUsage, subscribeUsage } from './services/usage';
+import { Invite, Peer, clearInvite, readInvite } from './services/collab';
+import { SparklesIcon, DownloadIcon, MicIcon, PlusIcon, EyeIcon, FrogIcon, ChevronLeftIcon, ChevronRightIcon, BranchIcon, XIcon, SettingsIcon, LayersIcon, BookIcon, UsersIcon } from './components/icons';
+import MediaViewer from './components/MediaViewer';
+import CommandBar from './components/CommandBar';
+import SettingsPanel from './components/SettingsPanel';
+import BatchPanel from './components/BatchPanel';
+import RecipePanel from './components/RecipePanel';
+import SessionsPanel from './components/SessionsPanel';
+import VersionThumb from './components/VersionThumb';
+import JobTray from './components/JobTray';
+import TranscriptPanel from './components/TranscriptPanel';
+import CollabPanel from './components/CollabPanel';
+import PeerAvatars from './components/PeerAvatars';
 import { useGeminiLive } from './hooks/useGeminiLive';
+import { useBatchRunner } from './hooks/useBatchRunner';
+import { useJobQueue } from './hooks/useJobQueue';
+import { useCollaboration } from './hooks/useCollaboration';
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.readAsDataURL(file);
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = (error) => reject(error);
-    });
+// Files first; a link dragged or copied from another page arrives as text instead.
+const mediaFromTransfer = (data: DataTransfer): (File | string)[] => {
+    const files = Array.from(data.files).filter(file => file.type.startsWith('image/') || file.type.startsWith('video/'));
+    if (files.length > 0) return files;
+    const link = data.getData('text/uri-list').split('\n').find(line => line.trim() && !line.startsWith('#')) ?? data.getData('text/plain');
+    return link && isMediaUrl(link) ? [link.trim()] : [];
 };
 
+
+type GenerationType = 'edit' | 'generate' | 'compose' | 'animate';
+
+interface GenerateOptions {
+    useSelection?: boolean;
+    // Extra images for 'compose'; defaults to the ones attached in the reference tray.
+    referenceImages?: string[];
+}
+
+const NO_SESSION = "No session is open. Upload an image or generate one first.";
+
+const JOB_LABELS: Record<GenerationType, string> = { edit: 'Edit', generate: 'New image', compose: 'Compose', animate: 'Animate' };
+const JOB_CONCURRENCY = 2;
+const IMAGE_TIMEOUT_MS = 2 * 60 * 1000;
+// Video generation polls a long-running operation and routinely takes minutes.
+const VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
+const UNDO_DELETE_MS = 8000;
+
+
 // --- Sound Effects Utility ---
 const playSound = (type: 'start' | 'scribble' | 'success' | 'error') => {
     const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
@@ -71,7 +120,28 @@ const playSound = (type: 'start' | 'scribble' | 'success' | 'error') => {
 
 // --- Components ---
 
-const Header = ({ sessions, activeId, onSelect, onNew }: { sessions: Session[], activeId: string | null, onSelect: (id: string) => void, onNew: () => void }) => (
+interface HeaderProps {
+    sessions: Session[];
+    activeId: string | null;
+    onSelect: (id: string) => void;
+    onNew: () => void;
+    onOpenSessions: () => void;
+    providerId: string;
+    onProviderChange: (id: string) => void;
+    onOpenSettings: () => void;
+    onOpenBatch: () => void;
+    onOpenRecipes: () => void;
+    isBatchRunning: boolean;
+    onOpenCollab: () => void;
+    // Everyone else in the shared session; null when nothing is shared.
+    peers: Peer[] | null;
+}
+
+// The header only fits a handful of sessions: the active one and the most recently used. The rest are in the
+// sessions panel.
+const HEADER_SESSIONS = 4;
+
+const Header = ({ sessions, activeId, onSelect, onNew, onOpenSessions, providerId, onProviderChange, onOpenSettings, onOpenBatch, onOpenRecipes, isBatchRunning, onOpenCollab, peers }: HeaderProps) => (
     <header className="h-14 md:h-16 border-b border-white/10 bg-[#050505] flex items-center justify-between px-4 md:px-6 z-30 shrink-0">
         <div className="flex items-center gap-3 md:gap-4">
              <div className="w-8 h-8 md:w-10 md:h-10 bg-white/10 rounded-full flex items-center justify-center border border-white/20">
@@ -79,18 +149,54 @@ const Header = ({ sessions, activeId, onSelect, onNew }: { sessions: Session[],
              </div>
             <span className="font-mono font-black tracking-tighter text-white text-lg md:text-2xl truncate">FORGY AI EDITOR</span>
         </div>
-        <div className="hidden md:flex items-center gap-3">
-            {sessions.map((s, i) => (
-                <button 
-                    key={s.id}
-                    onClick={() => onSelect(s.id)}
-                    className={`px-4 py-1.5 rounded-full text-xs font-mono transition-all duration-300 ${activeId === s.id ? 'bg-white text-black font-bold' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
+        <div className="flex items-center gap-2 md:gap-3">
+            <div className="hidden md:flex items-center gap-3">
+                <select
+                    value={providerId}
+                    onChange={e => onProviderChange(e.target.value)}
+                    title="Image edit backend"
+                    className="bg-transparent border border-white/10 rounded-full px-3 py-1.5 text-xs font-mono text-gray-400 hover:text-white focus:outline-none"
                 >
-                    SESSION_{i+1}
+                    {listProviders().map(p => <option key={p.id} value={p.id} className="bg-black">{p.label.toUpperCase()}</option>)}
+                </select>
+                {sessions
+                    .map((s, i) => ({ s, i }))
+                    .sort((a, b) => Number(b.s.id === activeId) - Number(a.s.id === activeId) || b.s.updatedAt - a.s.updatedAt)
+                    .slice(0, HEADER_SESSIONS)
+                    .sort((a, b) => a.i - b.i)
+                    .map(({ s, i }) => (
+                        <button
+                            key={s.id}
+                            onClick={() => onSelect(s.id)}
+                            title={`#${s.number} ${sessionLabel(s)}`}
+                            className={`max-w-40 truncate px-4 py-1.5 rounded-full text-xs font-mono transition-all duration-300 ${activeId === s.id ? 'bg-white text-black font-bold' : 'text-gray-500 hover:text-white hover:bg-white/5'}`}
+                        >
+                            {sessionLabel(s)}
+                        </button>
+                    ))}
+                <button onClick={onNew} className="w-8 h-8 flex items-center justify-center bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-colors">
+                    <PlusIcon className="w-4 h-4" />
                 </button>
-            ))}
-            <button onClick={onNew} className="w-8 h-8 flex items-center justify-center bg-white/10 rounded-full hover:bg-white text-white hover:text-black transition-colors">
-                <PlusIcon className="w-4 h-4" />
+            </div>
+            <button
+                onClick={onOpenSessions}
+                title="All sessions"
+                className="px-3 py-1.5 rounded-full border border-white/10 text-xs font-mono text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+            >
+                ALL <span className="text-gray-600">{sessions.length}</span>
+            </button>
+            <button onClick={onOpenCollab} title={peers ? 'Sharing this session' : 'Collaborate'} className={`h-8 min-w-8 px-1 flex items-center justify-center gap-1.5 rounded-full hover:bg-white/10 hover:text-white transition-colors ${peers ? 'text-green-400' : 'text-gray-400'}`}>
+                <UsersIcon className="w-4 h-4" />
+                {peers && peers.length > 0 && <PeerAvatars peers={peers} max={3} />}
+            </button>
+            <button onClick={onOpenBatch} title={isBatchRunning ? 'Batch running' : 'Batch edit many images'} className={`w-8 h-8 flex items-center justify-center rounded-full hover:bg-white/10 hover:text-white transition-colors ${isBatchRunning ? 'text-amber-400 animate-pulse' : 'text-gray-400'}`}>
+                <LayersIcon className="w-4 h-4" />
+            </button>
+            <button onClick={onOpenRecipes} title="Recipes" className="w-8 h-8 flex items-center justify-center rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors">
+                <BookIcon className="w-4 h-4" />
+            </button>
+            <button onClick={onOpenSettings} title="Assistant settings" className="w-8 h-8 flex items-center justify-center rounded-full text-gray-400 hover:bg-white/10 hover:text-white transition-colors">
+                <SettingsIcon className="w-4 h-4" />
             </button>
         </div>
     </header>
@@ -223,92 +329,41 @@ const Mascot = React.memo(({ mode }: { mode: MascotMode }) => {
     );
 });
 
-const MediaViewer = ({ currentVersion, originalVersion }: { currentVersion: MediaVersion, originalVersion: MediaVersion }) => {
-    const [scale, setScale] = useState(1);
-    const [showOriginal, setShowOriginal] = useState(false);
-    
-    const activeVersion = showOriginal ? originalVersion : currentVersion;
-
+// Steps between sibling branches of a version; jumping lands on the newest tip of the chosen branch.
+const BranchSwitcher = ({ session, version, onSelect }: { session: Session, version: MediaVersion, onSelect: (index: number) => void }) => {
+    const siblings = getSiblings(session, version);
+    if (siblings.length < 2) return null;
+    const position = siblings.findIndex(v => v.id === version.id);
+    const go = (offset: number) => {
+        const target = siblings[(position + offset + siblings.length) % siblings.length];
+        onSelect(indexOfVersion(session, getLatestDescendant(session, target.id).id));
+    };
     return (
-        <div className="relative w-full h-full flex items-center justify-center bg-[#080808] overflow-hidden group shadow-inner z-10">
-             {/* Grid Background */}
-             <div className="absolute inset-0 opacity-15 pointer-events-none" 
-                  style={{ backgroundImage: 'radial-gradient(#444 1px, transparent 1px)', backgroundSize: '32px 32px' }}>
-             </div>
-
-            <div 
-                className="w-full h-full flex items-center justify-center transition-transform duration-200 ease-out p-4 md:p-16"
-                style={{ transform: `scale(${scale})` }}
-            >
-                <img src={activeVersion.src} alt="Content" className="max-w-full max-h-full object-contain shadow-2xl ring-1 ring-white/10 rounded-sm" />
-            </div>
-
-            {/* Controls */}
-            <div className="absolute bottom-4 md:bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-3 md:gap-4 p-2 md:p-3 bg-[#1a1a1a]/90 border border-white/10 rounded-full shadow-2xl z-50 backdrop-blur-md">
-                <button onClick={() => setScale(s => Math.max(1, s - 0.5))} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><ZoomOutIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
-                <button onClick={() => setScale(s => Math.min(3, s + 0.5))} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><ZoomInIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
-                <button onClick={() => setScale(1)} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><RefreshCcwIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
-                <div className="w-px h-5 md:h-6 bg-white/20 mx-0.5"></div>
-                <button 
-                    onMouseDown={() => setShowOriginal(true)}
-                    onMouseUp={() => setShowOriginal(false)}
-                    onMouseLeave={() => setShowOriginal(false)}
-                    onTouchStart={() => setShowOriginal(true)}
-                    onTouchEnd={() => setShowOriginal(false)}
-                    className={`px-3 py-1 md:px-4 md:py-1.5 rounded-full text-xs md:text-sm font-medium transition-all ${showOriginal ? 'bg-white text-black shadow-lg scale-105' : 'hover:bg-white/20 text-white'}`}
-                >
-                    COMPARE
-                </button>
-            </div>
+        <div className="flex items-center gap-1 text-[10px] font-mono text-gray-400" onClick={e => e.stopPropagation()}>
+            <span role="button" onClick={() => go(-1)} className="p-0.5 hover:text-white hover:bg-white/10 rounded"><ChevronLeftIcon className="w-3 h-3" /></span>
+            <span>{position + 1}/{siblings.length}</span>
+            <span role="button" onClick={() => go(1)} className="p-0.5 hover:text-white hover:bg-white/10 rounded"><ChevronRightIcon className="w-3 h-3" /></span>
         </div>
     );
 };
 
-const VisionBoard = ({ transcript, interimTranscript }: { transcript: string[], interimTranscript: string }) => {
-    const bottomRef = useRef<HTMLDivElement>(null);
-    useEffect(() => { bottomRef.current?.scrollIntoView({ behavior: 'smooth' }); }, [transcript, interimTranscript]);
-
-    return (
-        <div className="flex flex-col h-full bg-[#0A0A0A]">
-            <div className="p-3 md:p-4 border-b border-white/10 flex items-center justify-between bg-[#050505] shrink-0">
-                <h3 className="text-[10px] md:text-xs font-mono uppercase tracking-widest text-gray-400 font-semibold">Live Transcript</h3>
-                <div className="flex items-center gap-2">
-                    <span className="text-[9px] md:text-[10px] text-gray-600 font-mono">REC</span>
-                    <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-green-500 rounded-full animate-pulse"></div>
-                </div>
-            </div>
-            
-            <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4 md:space-y-6 bg-[#0A0A0A]">
-                {transcript.length === 0 && !interimTranscript && (
-                    <div className="h-full flex flex-col items-center justify-center text-gray-800 space-y-3 opacity-40">
-                        <MicIcon className="w-8 h-8 md:w-10 md:h-10" />
-                        <p className="text-xs md:text-sm font-mono">Waiting for voice...</p>
-                    </div>
-                )}
-                {transcript.map((line, i) => {
-                    const isUser = line.startsWith('**You:**');
-                    const text = line.replace(/\*\*(You:|AI:)\*\*\s?/, '');
-                    return (
-                        <div key={i} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
-                            <div className={`max-w-[90%] md:max-w-[85%] p-2.5 md:p-3.5 rounded-xl text-xs md:text-sm leading-relaxed shadow-sm ${isUser ? 'bg-[#222] text-gray-100 border border-white/5 rounded-tr-none' : 'text-gray-300 bg-[#0f0f0f] border border-white/5 rounded-tl-none'}`}>
-                                {!isUser && <span className="text-[9px] md:text-[10px] font-bold text-green-500 block mb-1 uppercase tracking-wider">FORGY AI</span>}
-                                <p dangerouslySetInnerHTML={{ __html: text }} />
-                            </div>
-                        </div>
-                    );
-                })}
-                {interimTranscript && (
-                    <div className="flex justify-end">
-                         <div className="max-w-[85%] p-2.5 md:p-3 bg-[#111] text-gray-400 border border-dashed border-white/10 rounded-xl text-xs md:text-sm italic animate-pulse">
-                            {interimTranscript}...
-                        </div>
-                    </div>
-                )}
-                <div ref={bottomRef} />
+const ReferenceTray = ({ images, onAdd, onRemove }: { images: string[], onAdd: (files: File[]) => void, onRemove: (index: number) => void }) => (
+    <div className="px-4 md:px-6 pt-3 flex items-center gap-2 overflow-x-auto custom-scrollbar shrink-0">
+        <span className="text-[10px] font-mono uppercase tracking-widest text-gray-600 shrink-0">Refs</span>
+        {images.map((src, i) => (
+            <div key={i} className="relative w-10 h-10 rounded-md border border-white/10 overflow-hidden shrink-0 group">
+                <img src={src} className="w-full h-full object-cover" />
+                <button onClick={() => onRemove(i)} className="absolute inset-0 flex items-center justify-center bg-black/70 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <XIcon className="w-4 h-4 text-white" />
+                </button>
             </div>
-        </div>
-    );
-};
+        ))}
+        <label className="w-10 h-10 rounded-md border border-dashed border-white/20 flex items-center justify-center text-gray-600 hover:text-white hover:border-white cursor-pointer shrink-0 transition-colors" title="Attach reference images (logo, style...)">
+            <PlusIcon className="w-4 h-4" />
+            <input type="file" accept="image/*" multiple className="hidden" onChange={e => { onAdd(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+        </label>
+    </div>
+);
 
 export default function App() {
     const [sessions, setSessions] = useState<Session[]>([]);
@@ -319,13 +374,41 @@ export default function App() {
     const [isAiSpeaking, setIsAiSpeaking] = useState(false);
     const [interimTranscript, setInterimTranscript] = useState('');
     const [isKeyReady, setIsKeyReady] = useState(false);
+    const [isHydrated, setIsHydrated] = useState(false);
+    const [providerId, setProviderId] = useState(getActiveProviderId);
+    // A painted region belongs to the exact version it was drawn on.
+    const [selection, setSelection] = useState<{ versionId: string, mask: string } | null>(null);
+    const [referenceImages, setReferenceImages] = useState<string[]>([]);
+    const [generatePrompt, setGeneratePrompt] = useState('');
+    const [mediaLink, setMediaLink] = useState<string | null>(null);
+    const [isDraggingMedia, setIsDraggingMedia] = useState(false);
+    // Set while something from this page (a thumbnail, say) is being dragged; only outside media is imported on drop.
+    const isInternalDragRef = useRef(false);
+    const [viewerScale, setViewerScale] = useState(1);
+    const [showOriginal, setShowOriginal] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isBatchOpen, setIsBatchOpen] = useState(false);
+    const [isRecipesOpen, setIsRecipesOpen] = useState(false);
+    const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+    // The invite link this page was opened with, until it is accepted or dismissed.
+    const [invite, setInvite] = useState(readInvite);
+    const [isCollabOpen, setIsCollabOpen] = useState(invite !== null);
+    // The last deleted session, while it can still be restored.
+    const [deletedSession, setDeletedSession] = useState<Session | null>(null);
+    const batch = useBatchRunner();
+    const jobQueue = useJobQueue(JOB_CONCURRENCY);
+    const isGenerating = jobQueue.jobs.some(job => job.status === 'running');
 
     const sessionsRef = useRef(sessions);
     const activeSessionIdRef = useRef(activeSessionId);
+    const selectionRef = useRef(selection);
+    const referenceImagesRef = useRef(referenceImages);
     useEffect(() => {
         sessionsRef.current = sessions;
         activeSessionIdRef.current = activeSessionId;
-    }, [sessions, activeSessionId]);
+        selectionRef.current = selection;
+        referenceImagesRef.current = referenceImages;
+    }, [sessions, activeSessionId, selection, referenceImages]);
 
     useEffect(() => {
         const checkKey = async () => {
@@ -335,6 +418,27 @@ export default function App() {
         checkKey();
     }, []);
 
+    // Restore persisted sessions once, before autosave is allowed to write anything back.
+    useEffect(() => {
+        loadSessions()
+            .then(({ sessions: restored, lastEditedId }) => {
+                if (restored.length === 0) return;
+                // Anything opened before they loaded goes after them, numbered after theirs.
+                setSessions(prev => addSessions(restored, prev));
+                setActiveSessionId(prev => prev ?? lastEditedId);
+            })
+            .catch(e => console.error("Failed to restore sessions", e))
+            .finally(() => setIsHydrated(true));
+    }, []);
+
+    useEffect(() => {
+        if (!isHydrated) return;
+        const timeout = setTimeout(() => {
+            saveSessions(sessions).catch(e => console.error("Failed to save sessions", e));
+        }, 500);
+        return () => clearTimeout(timeout);
+    }, [sessions, isHydrated]);
+
     const handleSelectKey = async () => {
         const aistudio = (window as any).aistudio;
         if (aistudio) {
@@ -343,107 +447,581 @@ export default function App() {
         }
     };
 
+    const handleProviderChange = (id: string) => {
+        setActiveProviderId(id);
+        setProviderId(id);
+    };
+
+    // The mock backend needs no key, so the editor can be opened straight away.
+    const handleLaunchOffline = () => {
+        handleProviderChange('mock');
+        setIsKeyReady(true);
+    };
+
+    const getActiveSession = () => sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
+
+    // Numbered like the timeline's VERSION n labels; read before the new version is added.
+    const nextVersionNumber = (sessionId: string) => (sessionsRef.current.find(s => s.id === sessionId)?.versions.length ?? 0) + 1;
+
+    const updateSessionById = (id: string, updater: (s: Session) => Session) => {
+        setSessions(prev => prev.map(s => s.id === id ? { ...updater(s), updatedAt: Date.now() } : s));
+    };
+
     const updateSession = (updater: (s: Session) => Session) => {
         const id = activeSessionIdRef.current;
-        if (id) setSessions(prev => prev.map(s => s.id === id ? updater(s) : s));
+        if (id) updateSessionById(id, updater);
     };
 
-    const handleTurnComplete = useCallback((user: string, ai: string) => {
+    const appendTranscript = (sessionId: string, entries: TranscriptEntry[]) => {
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, transcript: [...s.transcript, ...entries], updatedAt: Date.now() } : s));
+    };
+
+    // Tool calls arrive before the turn that made them completes; they are attached to that turn's reply.
+    const pendingToolCallsRef = useRef<ToolCallRecord[]>([]);
+
+    const handleTurnComplete = useCallback((user: string, ai: string, interrupted = false) => {
         const id = activeSessionIdRef.current;
+        const toolCalls = pendingToolCallsRef.current;
+        pendingToolCallsRef.current = [];
         if (!id) return;
-        setSessions(prev => prev.map(s => s.id === id ? {
-            ...s, transcript: [...s.transcript, ...(user ? [`**You:** ${user}`] : []), ...(ai ? [`**AI:** ${ai}`] : [])]
-        } : s));
+        const versionId = [...toolCalls].reverse().find(call => call.versionId)?.versionId;
+        appendTranscript(id, [
+            ...(user ? [createEntry('user', user, { source: 'voice' })] : []),
+            ...(ai || toolCalls.length > 0 ? [createEntry('assistant', ai, { interrupted: interrupted || undefined, toolCalls: toolCalls.length > 0 ? toolCalls : undefined, versionId })] : []),
+        ]);
     }, []);
 
-    const handleGenerate = useCallback(async (type: 'edit', prompt: string) => {
-        const session = sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
-        if (!session) return { error: "No session" };
-
-        setIsLoading(true);
-        playSound('start');
-        playSound('scribble'); 
-        
-        const scribbleInterval = setInterval(() => {
-             if (Math.random() > 0.5) playSound('scribble');
-        }, 2000);
+    // Only sessions created in this tab (upload or text prompt) auto-start voice; restored ones wait for the user.
+    const autoStartSessionIdRef = useRef<string | null>(null);
 
+    // Queues a model request and reports how it ended; the job itself attaches its result.
+    const runModelJob = async (options: JobOptions<ToolResult>): Promise<ToolResult> => {
         try {
-            const sourceImage = session.versions[session.versions.length - 1].src;
-            const resultUrl = await editImage(sourceImage, prompt);
-            
-            updateSession(s => ({
-                ...s,
-                versions: [...s.versions, { src: resultUrl, prompt, type: 'image' }],
-                currentIndex: s.versions.length
-            }));
-            
+            const result = await jobQueue.enqueue(options);
             setIsSuccessAnim(true);
             playSound('success');
             setTimeout(() => setIsSuccessAnim(false), 4000);
-            return { success: true };
+            return result;
         } catch (e) {
+            if (isCancellation(e)) return { error: "Cancelled by the user" };
             console.error(e);
             playSound('error');
-            setError("Generation failed. Please try again.");
+            setError(`Generation failed: ${describeError(e)}`);
+            setTimeout(() => setError(null), 5000);
+            return { error: `Generation failed: ${describeError(e)}` };
+        }
+    };
+
+    const handleGenerate = useCallback(async (type: GenerationType, prompt: string, options: GenerateOptions = {}): Promise<ToolResult> => {
+        const session = sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
+        if (type !== 'generate' && !session) return { error: NO_SESSION };
+
+        const provider = meterProvider(getActiveProvider(), session?.id ?? null);
+        const referenceImages = type === 'compose' ? options.referenceImages ?? referenceImagesRef.current : [];
+        if (type === 'generate' && !provider.generate) return { error: `${provider.label} cannot generate images from text` };
+        if (type === 'compose' && !provider.capabilities.referenceImages) return { error: `${provider.label} does not accept reference images` };
+        if (type === 'compose' && referenceImages.length === 0) return { error: "No reference images attached" };
+        if (type === 'animate' && !provider.generateVideo) return { error: `${provider.label} cannot generate video` };
+        if ((type === 'edit' || type === 'compose') && session.versions[session.currentIndex].type === 'video') {
+            return { error: "The current version is a video. Pick a frame with EDIT FRAME to edit it as an image." };
+        }
+
+        // Everything the job needs is captured now: by the time it runs the user may be on another version or session.
+        // Edits branch off whichever version is selected, not necessarily the newest one.
+        const source = session?.versions[session.currentIndex];
+        // A selection on the source restricts the edit unless the caller explicitly opts out.
+        const mask = source && options.useSelection !== false && selectionRef.current?.versionId === source.id ? selectionRef.current.mask : undefined;
+
+        return runModelJob({
+            label: `${JOB_LABELS[type]}: ${prompt}`,
+            sessionId: session?.id ?? null,
+            timeoutMs: type === 'animate' ? VIDEO_TIMEOUT_MS : IMAGE_TIMEOUT_MS,
+            run: async signal => {
+                playSound('start');
+                if (type === 'generate') {
+                    const src = await provider.generate!({ prompt, signal });
+                    signal.throwIfAborted();
+                    const newSession = createSession(src, prompt);
+                    autoStartSessionIdRef.current = newSession.id;
+                    const number = nextSessionNumber(sessionsRef.current);
+                    setSessions(prev => addSessions(prev, [newSession]));
+                    setActiveSessionId(newSession.id);
+                    return { success: true, session: number, version: 1, versionId: newSession.versions[0].id, description: prompt, type: 'image', image: src };
+                }
+                if (type === 'animate') {
+                    const clip = await provider.generateVideo!({ prompt, image: source.type === 'image' ? source.src : undefined, signal });
+                    signal.throwIfAborted();
+                    const version = nextVersionNumber(session.id);
+                    const versionId = createVersionId();
+                    updateSessionById(session.id, s => addChildVersion(s, source.id, { id: versionId, src: clip, prompt, type: 'video' }));
+                    return { success: true, version, versionId, description: prompt, type: 'video' };
+                }
+                const edited = await provider.edit({ image: source.src, prompt, mask: provider.capabilities.mask ? mask : undefined, referenceImages, signal });
+                const resultUrl = mask ? await compositeWithMask(source.src, edited, mask) : edited;
+                signal.throwIfAborted();
+                const version = nextVersionNumber(session.id);
+                const versionId = createVersionId();
+                updateSessionById(session.id, s => addChildVersion(s, source.id, { id: versionId, src: resultUrl, prompt, type: 'image' }));
+                return { success: true, version, versionId, description: prompt, type: 'image', editedSelectionOnly: !!mask, image: resultUrl };
+            },
+        });
+    }, []);
+
+    // Replays a recipe on the version on screen as one job; the whole chain is attached when it finishes.
+    const handleApplyRecipe = useCallback(async (recipe: Recipe, values: Record<string, string> = {}): Promise<ToolResult> => {
+        const session = getActiveSession();
+        const source = session?.versions[session.currentIndex];
+        if (!source) return { error: NO_SESSION };
+        if (source.type !== 'image') return { error: "Recipes only work on images" };
+        const filled = fillPlaceholders(recipe.steps, values);
+        if ('missing' in filled) return { error: `Recipe "${recipe.name}" needs a value for ${filled.missing.join(', ')}` };
+
+        const provider = meterProvider(getActiveProvider(), session.id);
+        const modelSteps = filled.steps.filter(step => step.kind === 'edit').length;
+        return runModelJob({
+            label: `Recipe: ${recipe.name}`,
+            sessionId: session.id,
+            timeoutMs: IMAGE_TIMEOUT_MS * Math.max(1, modelSteps),
+            run: async signal => {
+                playSound('start');
+                const results = await runRecipeSteps(provider, source.src, filled.steps, signal);
+                const ids = results.map(() => createVersionId());
+                const version = nextVersionNumber(session.id) + results.length - 1;
+                updateSessionById(session.id, s => addVersionChain(s, source.id, results.map((src, i) => ({ ...versionForStep(filled.steps[i], src), id: ids[i] }))));
+                return { success: true, version, versionId: ids[ids.length - 1], description: `${recipe.name}: ${filled.steps.map(describeStep).join(', ')}`, type: 'image', image: results[results.length - 1] };
+            },
+        });
+    }, []);
+
+    useEffect(() => {
+        if (!isGenerating) return;
+        playSound('scribble');
+        const interval = setInterval(() => {
+            if (Math.random() > 0.5) playSound('scribble');
+        }, 2000);
+        return () => clearInterval(interval);
+    }, [isGenerating]);
+
+    // Local adjustments skip the model entirely; every operation becomes its own version so it can be replayed.
+    const handleAdjust = useCallback(async (operations: AdjustmentOperation[]): Promise<ToolResult> => {
+        const session = sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
+        const source = session?.versions[session.currentIndex];
+        if (!source) return { error: NO_SESSION };
+        if (source.type !== 'image') return { error: "Adjustments only work on images" };
+        try {
+            const results = await replayOperations(source.src, operations);
+            const version = nextVersionNumber(session.id) + operations.length - 1;
+            const ids = operations.map(() => createVersionId());
+            updateSessionById(session.id, s => addVersionChain(s, source.id, operations.map((operation, i) => ({ id: ids[i], src: results[i], prompt: describeOperation(operation), type: 'image', operation }))));
+            return { success: true, version, versionId: ids[ids.length - 1], description: operations.map(describeOperation).join(', '), type: 'image', image: results[results.length - 1] };
+        } catch (e) {
+            console.error(e);
+            setError("Adjustment failed.");
+            setTimeout(() => setError(null), 3000);
+            return { error: `Adjustment failed: ${describeError(e)}` };
+        }
+    }, []);
+
+    // Re-runs the current version's operation with new parameters, replaying the local adjustments that
+    // followed it, as a sibling branch so the original chain is kept.
+    const handleReviseAdjustment = useCallback(async (operation: AdjustmentOperation) => {
+        const session = sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
+        const target = session?.versions[session.currentIndex];
+        const parent = target?.parentId ? session.versions.find(v => v.id === target.parentId) : undefined;
+        if (!target?.operation || !parent) return;
+
+        const branch = getActiveBranch(session);
+        const followUps: AdjustmentOperation[] = [];
+        for (const v of branch.slice(branch.findIndex(v => v.id === target.id) + 1)) {
+            if (!v.operation) break;
+            followUps.push(v.operation);
+        }
+        const operations = [operation, ...followUps];
+        try {
+            const results = await replayOperations(parent.src, operations);
+            updateSessionById(session.id, s => addVersionChain(s, parent.id, operations.map((op, i) => ({ src: results[i], prompt: describeOperation(op), type: 'image', operation: op }))));
+        } catch (e) {
+            console.error(e);
+            setError("Adjustment failed.");
             setTimeout(() => setError(null), 3000);
-            return { error: "Failed" };
-        } finally {
-            clearInterval(scribbleInterval);
-            setIsLoading(false);
         }
     }, []);
 
-    const handleFunctionCall = useCallback(async (name: string, args: any) => {
-        if (name === 'editImage') return handleGenerate('edit', args.prompt);
-        return { error: "Unknown" };
+    // Undo walks up the tree; redo retraces those steps, so a stack per session remembers which child we came from.
+    const redoStacksRef = useRef(new Map<string, string[]>());
+
+    const showVersion = (session: Session, index: number): ToolResult => {
+        updateSession(s => ({ ...s, currentIndex: index }));
+        const version = session.versions[index];
+        return { success: true, version: index + 1, versionId: version.id, description: version.prompt, type: version.type };
+    };
+
+    const handleExportSession = useCallback(async (): Promise<ToolResult> => {
+        const session = getActiveSession();
+        if (!session) return { error: NO_SESSION };
+        try {
+            const file = `forgy-session-${session.id}.forgy.zip`;
+            downloadBlob(await exportSessionBundle(session), file);
+            return { success: true, file };
+        } catch (e) {
+            console.error(e);
+            setError("Export failed.");
+            setTimeout(() => setError(null), 3000);
+            return { error: `Export failed: ${describeError(e)}` };
+        }
+    }, []);
+
+    // Schemas live in services/editorTools; the handlers are bound here because they act on App state.
+    const toolRegistry = useMemo(() => {
+        const currentImageSize = async () => {
+            const session = getActiveSession();
+            const current = session?.versions[session.currentIndex];
+            if (!current) return null;
+            const img = await loadImage(current.src);
+            return { width: img.naturalWidth, height: img.naturalHeight };
+        };
+
+        return createToolRegistry(EDITOR_TOOLS, {
+            editImage: ({ prompt, useSelection }) => handleGenerate('edit', prompt, { useSelection }),
+            generateImage: ({ prompt }) => handleGenerate('generate', prompt),
+            animateImage: ({ prompt }) => handleGenerate('animate', prompt),
+            listRecipes: () => ({
+                success: true,
+                recipes: listRecipes().map(r => ({ name: r.name, steps: r.steps.map(describeStep), placeholders: placeholdersOf(r.steps) })),
+            }),
+            applyRecipe: ({ name, values = [] }) => {
+                const recipe = findRecipe(name);
+                if (!recipe) return { error: `No recipe called "${name}". Saved recipes: ${listRecipes().map(r => r.name).join(', ') || 'none'}` };
+                const pairs = values.map(value => {
+                    const split = value.indexOf('=');
+                    return split === -1 ? [value.trim(), ''] : [value.slice(0, split).trim(), value.slice(split + 1).trim()];
+                });
+                return handleApplyRecipe(recipe, Object.fromEntries(pairs));
+            },
+            composeImages: ({ prompt, sessionNumbers = [], useSelection }) => {
+                // The numbers shown as #n in the header and sessions panel; they stay put when other sessions are deleted.
+                const found = sessionNumbers.map(n => sessionsRef.current.find(s => s.number === n));
+                const missing = sessionNumbers.filter((_, i) => !found[i]);
+                if (missing.length > 0) return { error: `There is no session ${missing.join(', ')}` };
+                const fromSessions = found.map(s => s.versions[s.currentIndex].src);
+                return handleGenerate('compose', prompt, { useSelection, referenceImages: [...referenceImagesRef.current, ...fromSessions] });
+            },
+
+            rotateImage: ({ degrees }) => handleAdjust([{ kind: 'rotate', degrees }]),
+            flipImage: ({ axis }) => handleAdjust([{ kind: 'flip', axis }]),
+            applyFilter: ({ name }) => handleAdjust([{ kind: 'filter', name }]),
+            adjustTone: ({ exposure, contrast, saturation }) => {
+                const operations: AdjustmentOperation[] = [];
+                if (exposure) operations.push({ kind: 'exposure', stops: exposure });
+                if (contrast) operations.push({ kind: 'contrast', amount: contrast });
+                if (saturation) operations.push({ kind: 'saturation', amount: saturation });
+                if (operations.length === 0) return { error: "Nothing to change: give exposure, contrast or saturation" };
+                return handleAdjust(operations);
+            },
+            cropImage: async ({ aspectRatio }) => {
+                const [w, h] = aspectRatio.split(':').map(Number);
+                if (!(w > 0 && h > 0)) return { error: `"${aspectRatio}" is not an aspect ratio like 16:9` };
+                const size = await currentImageSize();
+                if (!size) return { error: NO_SESSION };
+                return handleAdjust([centerCrop(w / h, size.width, size.height)]);
+            },
+            resizeImage: async ({ scale, width }) => {
+                const size = await currentImageSize();
+                if (!size) return { error: NO_SESSION };
+                const factor = width ? width / size.width : scale;
+                if (!factor) return { error: "Give either a scale or a width" };
+                return handleAdjust([{ kind: 'resize', width: size.width * factor, height: size.height * factor }]);
+            },
+
+            undo: () => {
+                const session = getActiveSession();
+                const current = session?.versions[session.currentIndex];
+                if (!current) return { error: NO_SESSION };
+                if (!current.parentId) return { error: "Already at the original; nothing to undo" };
+                const stack = redoStacksRef.current.get(session.id) ?? [];
+                redoStacksRef.current.set(session.id, [...stack, current.id]);
+                return showVersion(session, indexOfVersion(session, current.parentId));
+            },
+            redo: () => {
+                const session = getActiveSession();
+                const current = session?.versions[session.currentIndex];
+                if (!current) return { error: NO_SESSION };
+                const stack = redoStacksRef.current.get(session.id) ?? [];
+                const undone = stack[stack.length - 1];
+                // A stale entry means the user navigated elsewhere since the undo; fall back to the newest edit below.
+                if (undone && session.versions.some(v => v.id === undone && v.parentId === current.id)) {
+                    redoStacksRef.current.set(session.id, stack.slice(0, -1));
+                    return showVersion(session, indexOfVersion(session, undone));
+                }
+                redoStacksRef.current.delete(session.id);
+                const branch = getActiveBranch(session);
+                const next = branch[branch.findIndex(v => v.id === current.id) + 1];
+                if (!next) return { error: "Nothing to redo; this is the newest version on its branch" };
+                return showVersion(session, indexOfVersion(session, next.id));
+            },
+            goToVersion: ({ version }) => {
+                const session = getActiveSession();
+                if (!session) return { error: NO_SESSION };
+                if (version > session.versions.length) return { error: `There is no version ${version}; this session has ${session.versions.length}` };
+                return showVersion(session, version - 1);
+            },
+            compareWithOriginal: ({ show = true }) => {
+                if (!getActiveSession()) return { error: NO_SESSION };
+                setShowOriginal(show);
+                return { success: true, showing: show ? 'original' : 'current' };
+            },
+            zoom: ({ level }) => {
+                if (!getActiveSession()) return { error: NO_SESSION };
+                setViewerScale(level);
+                return { success: true, level };
+            },
+            newSession: () => {
+                setActiveSessionId(null);
+                return { success: true };
+            },
+            exportImage: async ({ format = 'png', quality = 92 }) => {
+                const session = getActiveSession();
+                const version = session?.versions[session.currentIndex];
+                if (!version) return { error: NO_SESSION };
+                if (version.type === 'video') {
+                    downloadBlob(dataUrlToBlob(version.src), versionFileName(version));
+                    return { success: true, file: versionFileName(version) };
+                }
+                const file = versionFileName(version, format === 'jpeg' ? 'jpg' : format);
+                downloadBlob(await exportImage(exportSource(version), format, quality / 100), file);
+                return { success: true, file };
+            },
+            exportSession: () => handleExportSession(),
+            renameSession: ({ name }) => {
+                const title = name.trim();
+                if (!getActiveSession()) return { error: NO_SESSION };
+                if (!title) return { error: "The name is empty" };
+                updateSession(s => ({ ...s, title }));
+                return { success: true, title };
+            },
+        });
+    }, [handleGenerate, handleAdjust, handleExportSession, handleApplyRecipe]);
+
+    const handleFunctionCall = useCallback(async (name: string, args: unknown) => {
+        const result = await toolRegistry.call(name, args);
+        const record: ToolCallRecord = { name, args: (args ?? {}) as Record<string, unknown> };
+        if ('error' in result) {
+            pendingToolCallsRef.current.push({ ...record, error: result.error });
+            return result;
+        }
+        const { versionId, ...response } = result;
+        pendingToolCallsRef.current.push({ ...record, versionId });
+        return response;
+    }, [toolRegistry]);
+
+    // Typed and dictated commands bypass the live model and go straight to the editor, logged like a spoken turn.
+    // With reference images in the tray they are used, as the live model would with composeImages.
+    const handleTypedCommand = useCallback(async (command: string) => {
+        const id = activeSessionIdRef.current;
+        if (!id) return;
+        appendTranscript(id, [createEntry('user', command, { source: 'typed' })]);
+        const withReferences = referenceImagesRef.current.length > 0;
+        const result = await handleGenerate(withReferences ? 'compose' : 'edit', command);
+        const call: ToolCallRecord = { name: withReferences ? 'composeImages' : 'editImage', args: { prompt: command } };
+        appendTranscript(id, ['error' in result
+            ? createEntry('assistant', `That didn't work: ${result.error}`, { toolCalls: [{ ...call, error: result.error }] })
+            : createEntry('assistant', `Done, that's VERSION ${result.version}.`, { toolCalls: [{ ...call, versionId: result.versionId }], versionId: result.versionId })]);
     }, [handleGenerate]);
 
-    const { isLive, startSession, stopSession } = useGeminiLive({
+    const handleAddReferences = async (files: File[]) => {
+        const images = await Promise.all(files.map(async file => (await ingestMedia(file, file.name)).src));
+        setReferenceImages(prev => [...prev, ...images]);
+    };
+
+    const { status: liveStatus, isLive, error: liveError, startSession, stopSession, updateImageContext } = useGeminiLive({
+        toolDeclarations: toolRegistry.declarations,
         onFunctionCall: handleFunctionCall,
         onTurnComplete: handleTurnComplete,
         onInterimTranscript: setInterimTranscript,
-        onAiSpeakingStatusChange: setIsAiSpeaking
+        onAiSpeakingStatusChange: setIsAiSpeaking,
+        onUsage: usage => recordUsage(activeSessionIdRef.current, usage),
+    });
+
+    const collab = useCollaboration({
+        sessions,
+        setSessions,
+        activeSessionId,
+        activity: liveStatus === 'live' ? 'talking' : isGenerating ? 'generating' : undefined,
+        onSessionReady: setActiveSessionId,
     });
 
+    const handleJoin = (accepted: Invite) => {
+        collab.join(accepted.roomId, accepted.relayUrl);
+        clearInvite();
+        setInvite(null);
+    };
+
+    const handleDismissInvite = () => {
+        clearInvite();
+        setInvite(null);
+        setIsCollabOpen(false);
+    };
+
+    // Budget warnings show as a toast; a used-up live or token budget also ends the conversation.
+    useEffect(() => subscribeUsage(warning => {
+        if (!warning) return;
+        setError(warning);
+        setTimeout(() => setError(null), 5000);
+        if (budgetBlock('liveMinutes') ?? budgetBlock('tokens')) stopSession();
+    }), []);
+
     const handleStartLiveSession = () => {
         const session = sessions.find(s => s.id === activeSessionId);
-        // Pass the current image to the live session for context
-        const currentImage = session?.versions[session.currentIndex]?.src;
-        startSession(currentImage);
+        // Pass the current image so the model sees it as soon as the socket opens; videos follow via the sync effect
+        const current = session?.versions[session.currentIndex];
+        startSession(current?.type === 'image' ? current.src : undefined);
     };
 
-    const handleImageUpload = useCallback(async (file: File) => {
+    const handleExtractFrame = useCallback(async (time: number) => {
+        const session = sessionsRef.current.find(s => s.id === activeSessionIdRef.current);
+        const source = session?.versions[session.currentIndex];
+        if (!source || source.type !== 'video') return;
+        try {
+            const frame = await extractVideoFrame(source.src, time);
+            updateSessionById(session.id, s => addChildVersion(s, source.id, { src: frame, prompt: `Frame at ${time.toFixed(1)}s`, type: 'image' }));
+        } catch (e) {
+            console.error(e);
+            setError("Could not extract that frame.");
+            setTimeout(() => setError(null), 3000);
+        }
+    }, []);
+
+    const handleImportBundle = useCallback(async (file: File) => {
         setIsLoading(true);
         try {
-            const base64 = await fileToBase64(file);
-            const newSession: Session = {
-                id: Date.now().toString(),
-                versions: [{ src: base64, prompt: 'Original', type: 'image' }],
-                transcript: [],
-                currentIndex: 0
-            };
-            setSessions(prev => [...prev, newSession]);
-            setActiveSessionId(newSession.id);
-            // Delay slightly to let state settle, then start session with the new image
-            setTimeout(() => {
-                // Since we are inside a callback, we should grab the 'newSession' data directly
-                // But startSession is from the hook.
-                // We can manually trigger it.
-                // Note: We can't easily access startSession immediately here without closure issues if we used the prop directly,
-                // but since useGeminiLive is stable...
-                // Actually, best to let the user click "Start" or trigger it via an effect, but
-                // previous requirement was "auto start".
-                // We will trigger the click handler logic manually.
-                // However, startSession is defined in the component scope.
-                // We need to pass the base64 directly.
-                // We can't call startSession here because it might be stale if not careful, 
-                // but since it's a ref-based hook it should be fine.
-                // BUT, `handleStartLiveSession` wrapper uses `sessions` state which might be stale inside this async function.
-                // So we call startSession(base64) directly.
-            }, 500);
-        } catch (e) { console.error(e); }
-        finally { setIsLoading(false); }
+            const imported = await importSessionBundle(file);
+            // Importing the same bundle twice must not clobber the first copy.
+            const session = sessionsRef.current.some(s => s.id === imported.id) ? { ...imported, id: crypto.randomUUID() } : imported;
+            setSessions(prev => addSessions(prev, [session]));
+            setActiveSessionId(session.id);
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : "Import failed.");
+            setTimeout(() => setError(null), 3000);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    const handleJumpTo = (sessionId: string, versionId?: string) => {
+        setActiveSessionId(sessionId);
+        if (!versionId) return;
+        updateSessionById(sessionId, s => {
+            const index = indexOfVersion(s, versionId);
+            return index === -1 ? s : { ...s, currentIndex: index };
+        });
+    };
+
+    // A finished batch item becomes an ordinary session: the source, then one version per step.
+    const handleOpenBatchResult = (item: BatchItem) => {
+        const base = createSession(item.source, 'Original', 'image', item.original);
+        const chain = item.results.map((src, i) => versionForStep(item.steps[i], src));
+        const session = { ...addVersionChain(base, base.versions[0].id, chain), title: item.name };
+        setSessions(prev => addSessions(prev, [session]));
+        setActiveSessionId(session.id);
+        setIsBatchOpen(false);
+    };
+
+    const handleRenameSession = (id: string, title: string | undefined) => {
+        updateSessionById(id, s => ({ ...s, title }));
+    };
+
+    const handleDuplicateSession = (id: string) => {
+        const source = sessionsRef.current.find(s => s.id === id);
+        if (!source) return;
+        const copy = duplicateSession(source, `${sessionLabel(source)} copy`);
+        setSessions(prev => addSessions(prev, [copy]));
+        setActiveSessionId(copy.id);
+    };
+
+    const handleForkSession = () => {
+        const session = getActiveSession();
+        if (!session) return;
+        const fork = forkSession(session, session.versions[session.currentIndex].id, `${sessionLabel(session)} fork`);
+        setSessions(prev => addSessions(prev, [fork]));
+        setActiveSessionId(fork.id);
+    };
+
+    const handleDeleteSession = (id: string) => {
+        const position = sessionsRef.current.findIndex(s => s.id === id);
+        if (position === -1) return;
+        const remaining = sessionsRef.current.filter(s => s.id !== id);
+        setSessions(prev => prev.filter(s => s.id !== id));
+        if (activeSessionIdRef.current === id) setActiveSessionId(remaining[Math.min(position, remaining.length - 1)]?.id ?? null);
+        setDeletedSession(sessionsRef.current[position]);
+    };
+
+    const handleUndoDelete = () => {
+        if (!deletedSession) return;
+        setSessions(prev => restoreSession(prev, deletedSession));
+        setActiveSessionId(deletedSession.id);
+        setDeletedSession(null);
+    };
+
+    useEffect(() => {
+        if (!deletedSession) return;
+        const timer = setTimeout(() => setDeletedSession(null), UNDO_DELETE_MS);
+        return () => clearTimeout(timer);
+    }, [deletedSession]);
+
+    const handleDownloadBatch = async () => {
+        try {
+            downloadBlob(await exportBatchZip(batch.items), `forgy-batch-${Date.now()}.zip`);
+        } catch (e) {
+            console.error(e);
+            setError("Export failed.");
+            setTimeout(() => setError(null), 3000);
+        }
+    };
+
+    // Every way of bringing media in (picker, drop, paste, link) ends here; each item opens as its own session.
+    const handleMediaImport = useCallback(async (sources: (File | string)[]) => {
+        if (sources.length === 0) return;
+        setIsLoading(true);
+        try {
+            for (const source of sources) {
+                const media = typeof source === 'string'
+                    ? await ingestMedia(await fetchMedia(source), 'that link')
+                    : await ingestMedia(source, source.name);
+                const newSession = createSession(media.src, 'Original', media.type, media.original);
+                autoStartSessionIdRef.current = newSession.id;
+                setSessions(prev => addSessions(prev, [newSession]));
+                setActiveSessionId(newSession.id);
+            }
+        } catch (e) {
+            console.error(e);
+            setError(describeError(e));
+            setTimeout(() => setError(null), 5000);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    // Pasting an image anywhere opens it; a pasted link only does when it isn't going into a text field.
+    // Drops are handled on the studio area itself.
+    useEffect(() => {
+        const handlePaste = (e: ClipboardEvent) => {
+            const media = e.clipboardData ? mediaFromTransfer(e.clipboardData) : [];
+            const isTyping = e.target instanceof Element && e.target.closest('input, textarea, [contenteditable="true"]');
+            if (media.length === 0 || (isTyping && typeof media[0] === 'string')) return;
+            e.preventDefault();
+            handleMediaImport(media);
+        };
+        const handleDragStart = () => { isInternalDragRef.current = true; };
+        const handleDragEnd = () => { isInternalDragRef.current = false; };
+        window.addEventListener('paste', handlePaste);
+        window.addEventListener('dragstart', handleDragStart);
+        window.addEventListener('dragend', handleDragEnd);
+        return () => {
+            window.removeEventListener('paste', handlePaste);
+            window.removeEventListener('dragstart', handleDragStart);
+            window.removeEventListener('dragend', handleDragEnd);
+        };
     }, []);
     
     // Auto-start session when a new session is created (if desired, or just rely on user interaction). 
@@ -453,19 +1031,37 @@ export default function App() {
     useEffect(() => {
         if (activeSessionId && sessions.length > 0 && !isLive) {
              const session = sessions.find(s => s.id === activeSessionId);
-             if (session && session.versions.length === 1 && session.transcript.length === 0) {
+             if (session && session.id === autoStartSessionIdRef.current && session.versions.length === 1 && session.transcript.length === 0) {
                  // It's a brand new session
-                 startSession(session.versions[0].src);
+                 autoStartSessionIdRef.current = null;
+                 startSession(session.versions[0].type === 'image' ? session.versions[0].src : undefined);
              }
         }
     }, [activeSessionId, sessions.length]); // Dependency on length to detect new adds
 
 
     const activeSession = sessions.find(s => s.id === activeSessionId);
+    const activeBranch = useMemo(() => activeSession ? getActiveBranch(activeSession) : [], [activeSession]);
+    const selectVersion = (index: number) => updateSession(s => ({...s, currentIndex: index}));
+    const currentVersion = activeSession?.versions[activeSession.currentIndex];
+
+    // "Show the original" is a quick look: any other version or session coming on screen ends it, so new edits
+    // are never hidden behind it and the screen matches what the live model is shown.
+    useEffect(() => setShowOriginal(false), [activeSessionId, currentVersion?.id]);
+
+    // Whatever is on screen is what the live model should be talking about; videos are shown by their first frame.
+    useEffect(() => {
+        if (!isLive || !currentVersion) return;
+        const still = currentVersion.type === 'image' ? Promise.resolve(currentVersion.src) : extractVideoFrame(currentVersion.src, 0);
+        still.then(updateImageContext).catch(e => console.error(e));
+    }, [isLive, currentVersion?.src, updateImageContext]);
     
+    // Anything between pressing ASK FORGY and a stop or a final failure holds the microphone.
+    const isVoiceActive = liveStatus !== 'idle' && liveStatus !== 'failed';
+
     let mascotMode: MascotMode = 'idle';
     if (isSuccessAnim) mascotMode = 'success';
-    else if (isLoading) mascotMode = 'drawing';
+    else if (isLoading || isGenerating) mascotMode = 'drawing';
     else if (isAiSpeaking) mascotMode = 'speaking';
     else if (isLive) mascotMode = 'listening';
 
@@ -486,6 +1082,9 @@ export default function App() {
                     <button onClick={handleSelectKey} className="px-8 py-3 md:px-10 md:py-4 bg-white text-black font-black font-mono hover:scale-105 transition-all rounded-full text-sm md:text-lg shadow-xl hover:shadow-white/20">
                         LAUNCH EDITOR
                     </button>
+                    <button onClick={handleLaunchOffline} className="mt-4 text-xs md:text-sm font-mono text-gray-500 hover:text-white underline underline-offset-4 transition-colors">
+                        or try offline with the mock backend
+                    </button>
                 </div>
             </div>
         );
@@ -493,7 +1092,41 @@ export default function App() {
 
     return (
         <div className="flex flex-col h-screen bg-[#000] text-white overflow-hidden font-sans selection:bg-white selection:text-black">
-            <Header sessions={sessions} activeId={activeSessionId} onSelect={setActiveSessionId} onNew={() => setActiveSessionId(null)} />
+            <Header sessions={sessions} activeId={activeSessionId} onSelect={setActiveSessionId} onNew={() => setActiveSessionId(null)} onOpenSessions={() => setIsSessionsOpen(true)} providerId={providerId} onProviderChange={handleProviderChange} onOpenSettings={() => setIsSettingsOpen(true)} onOpenBatch={() => setIsBatchOpen(true)} onOpenRecipes={() => setIsRecipesOpen(true)} isBatchRunning={batch.isRunning} onOpenCollab={() => setIsCollabOpen(true)} peers={collab.roomId ? collab.peers : null} />
+            {isSettingsOpen && <SettingsPanel sessionId={activeSessionId} onClose={() => setIsSettingsOpen(false)} />}
+            <JobTray jobs={jobQueue.jobs} onCancel={jobQueue.cancel} />
+            {isBatchOpen && <BatchPanel batch={batch} onClose={() => setIsBatchOpen(false)} onDownload={handleDownloadBatch} onOpenResult={handleOpenBatchResult} />}
+            {isSessionsOpen && (
+                <SessionsPanel
+                    sessions={sessions}
+                    activeId={activeSessionId}
+                    onSelect={setActiveSessionId}
+                    onRename={handleRenameSession}
+                    onDuplicate={handleDuplicateSession}
+                    onDelete={handleDeleteSession}
+                    onClose={() => setIsSessionsOpen(false)}
+                />
+            )}
+            {deletedSession && (
+                <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[110] flex items-center gap-4 pl-5 pr-2 py-2 bg-[#111] border border-white/15 rounded-full shadow-2xl font-mono text-xs text-gray-300">
+                    <span className="max-w-60 truncate">Deleted {sessionLabel(deletedSession)}</span>
+                    <button onClick={handleUndoDelete} className="px-4 py-1.5 rounded-full bg-white text-black font-bold hover:bg-gray-200 transition-colors">UNDO</button>
+                </div>
+            )}
+            {isCollabOpen && (
+                <CollabPanel
+                    collab={collab}
+                    sessionId={activeSessionId}
+                    sessionTitle={activeSession ? sessionLabel(activeSession) : null}
+                    invite={invite}
+                    canJoin={isHydrated}
+                    onJoin={handleJoin}
+                    onDismissInvite={handleDismissInvite}
+                    onShowShared={() => collab.roomId && setActiveSessionId(collab.roomId)}
+                    onClose={() => setIsCollabOpen(false)}
+                />
+            )}
+            {isRecipesOpen && <RecipePanel session={activeSession} onApply={handleApplyRecipe} onClose={() => setIsRecipesOpen(false)} />}
             
             {error && (
                 <div className="fixed top-24 left-1/2 -translate-x-1/2 bg-red-900/80 backdrop-blur text-white px-6 py-2 md:px-8 md:py-3 rounded-full font-mono text-xs md:text-sm z-[100] shadow-2xl border border-red-500/50 flex items-center gap-3">
@@ -501,7 +1134,26 @@ export default function App() {
                 </div>
             )}
 
-            <div className="flex-1 flex flex-col lg:flex-row overflow-hidden relative">
+            <div
+                className="flex-1 flex flex-col lg:flex-row overflow-hidden relative"
+                onDragOver={e => {
+                    if (isInternalDragRef.current || (!e.dataTransfer.types.includes('Files') && !e.dataTransfer.types.includes('text/uri-list'))) return;
+                    e.preventDefault();
+                    setIsDraggingMedia(true);
+                }}
+                onDragLeave={e => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingMedia(false); }}
+                onDrop={e => {
+                    if (isInternalDragRef.current) return;
+                    e.preventDefault();
+                    setIsDraggingMedia(false);
+                    handleMediaImport(mediaFromTransfer(e.dataTransfer));
+                }}
+            >
+                {isDraggingMedia && (
+                    <div className="absolute inset-3 z-50 flex items-center justify-center rounded-3xl border-2 border-dashed border-white/60 bg-black/70 backdrop-blur-sm pointer-events-none">
+                        <span className="font-mono text-sm tracking-widest text-white">DROP TO OPEN</span>
+                    </div>
+                )}
                 {!activeSession ? (
                     <div className="flex-1 flex flex-col items-center justify-center p-4 text-center relative">
                         <Mascot mode="idle" />
@@ -513,8 +1165,58 @@ export default function App() {
                                 <PlusIcon className="w-10 h-10 md:w-12 md:h-12 text-gray-600 group-hover:text-white transition-colors" />
                             </div>
                             <h2 className="text-3xl md:text-6xl font-black tracking-tighter uppercase text-white/90 mb-4">Studio Empty</h2>
-                            <p className="text-gray-500 font-mono text-sm md:text-base">Upload an image to wake Forgy</p>
-                            <input id="upload-input" type="file" className="hidden" onChange={e => e.target.files?.[0] && handleImageUpload(e.target.files[0])} accept="image/*" />
+                            <p className="text-gray-500 font-mono text-sm md:text-base">Upload, drop or paste an image or video to wake Forgy</p>
+                            <input id="upload-input" type="file" multiple className="hidden" onChange={e => { handleMediaImport(Array.from(e.target.files ?? [])); e.target.value = ''; }} accept="image/*,video/*" />
+                            {mediaLink === null ? (
+                                <button onClick={() => setMediaLink('')} className="mt-3 text-xs font-mono text-gray-600 hover:text-white underline underline-offset-4 transition-colors">
+                                    or open one from a link
+                                </button>
+                            ) : (
+                                <form
+                                    className="mt-3 flex items-center gap-2 w-[min(90vw,28rem)] p-1.5 bg-[#0f0f0f] border border-white/10 rounded-full focus-within:border-white/40 transition-colors"
+                                    onSubmit={e => {
+                                        e.preventDefault();
+                                        if (!isMediaUrl(mediaLink) || isLoading) return;
+                                        handleMediaImport([mediaLink.trim()]);
+                                        setMediaLink(null);
+                                    }}
+                                >
+                                    <input
+                                        autoFocus
+                                        value={mediaLink}
+                                        onChange={e => setMediaLink(e.target.value)}
+                                        onKeyDown={e => e.key === 'Escape' && setMediaLink(null)}
+                                        placeholder="https://... or data:image/..."
+                                        className="flex-1 min-w-0 bg-transparent px-4 text-xs font-mono text-white placeholder-gray-600 focus:outline-none"
+                                    />
+                                    <button type="submit" disabled={isLoading || !isMediaUrl(mediaLink)} className="px-4 py-1.5 rounded-full bg-white text-black text-xs font-mono font-bold disabled:opacity-30 transition-opacity">OPEN</button>
+                                </form>
+                            )}
+                            <button onClick={() => document.getElementById('import-input')?.click()} className="mt-1 text-xs font-mono text-gray-600 hover:text-white underline underline-offset-4 transition-colors">
+                                or open an exported session bundle
+                            </button>
+                            <button onClick={() => setIsBatchOpen(true)} className="mt-1 text-xs font-mono text-gray-600 hover:text-white underline underline-offset-4 transition-colors">
+                                or edit a whole batch of images at once
+                            </button>
+                            <input id="import-input" type="file" className="hidden" onChange={e => { e.target.files?.[0] && handleImportBundle(e.target.files[0]); e.target.value = ''; }} accept=".zip,application/zip" />
+                            <form
+                                className="mt-6 md:mt-8 flex items-center gap-2 w-[min(90vw,28rem)] p-1.5 bg-[#0f0f0f] border border-white/10 rounded-full focus-within:border-white/40 transition-colors"
+                                onSubmit={e => {
+                                    e.preventDefault();
+                                    if (!generatePrompt.trim() || isLoading) return;
+                                    handleGenerate('generate', generatePrompt.trim()).then(result => { if ('success' in result) setGeneratePrompt(''); });
+                                }}
+                            >
+                                <input
+                                    value={generatePrompt}
+                                    onChange={e => setGeneratePrompt(e.target.value)}
+                                    placeholder="...or describe an image to create"
+                                    className="flex-1 bg-transparent px-4 text-sm font-mono text-white placeholder-gray-600 focus:outline-none"
+                                />
+                                <button type="submit" disabled={isLoading || !generatePrompt.trim()} className="p-2.5 rounded-full bg-white text-black disabled:opacity-30 transition-opacity">
+                                    <SparklesIcon className="w-4 h-4" />
+                                </button>
+                            </form>
                         </div>
                     </div>
                 ) : (
@@ -523,26 +1225,40 @@ export default function App() {
                         <aside className="hidden lg:flex w-72 bg-[#0A0A0A] flex-col z-20 border-r border-white/10 shadow-xl">
                             <div className="p-4 bg-[#050505] border-b border-white/10 flex items-center justify-between">
                                 <span className="text-xs font-mono uppercase tracking-widest text-gray-400 font-bold">Timeline</span>
+                                {getLeafCount(activeSession) > 1 && (
+                                    <span className="flex items-center gap-1.5 text-[10px] font-mono text-gray-500">
+                                        <BranchIcon className="w-3 h-3" />
+                                        {getLeafCount(activeSession)} BRANCHES
+                                    </span>
+                                )}
                             </div>
                             <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
-                                {activeSession.versions.map((v, i) => (
-                                    <button 
-                                        key={i} 
-                                        onClick={() => updateSession(s => ({...s, currentIndex: i}))} 
-                                        className={`w-full group flex items-start gap-4 p-3 rounded-xl transition-all duration-300 border ${activeSession.currentIndex === i ? 'bg-[#1A1A1A] border-white/40 shadow-md scale-[1.02]' : 'border-transparent hover:bg-[#111] hover:border-white/10'}`}
-                                    >
-                                        <div className="w-16 h-16 bg-black rounded-lg border border-white/10 overflow-hidden shrink-0 relative shadow-inner">
-                                            <img src={v.src} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
-                                        </div>
-                                        <div className="flex-1 text-left">
-                                            <div className="flex items-center justify-between mb-1">
-                                                <p className="text-[10px] text-gray-500 font-mono font-bold">VERSION {i+1}</p>
-                                                {activeSession.currentIndex === i && <div className="w-1.5 h-1.5 bg-white rounded-full" />}
+                                {activeBranch.map(v => {
+                                    const i = indexOfVersion(activeSession, v.id);
+                                    const forks = getChildren(activeSession, v.id).length;
+                                    return (
+                                        <button 
+                                            key={v.id} 
+                                            onClick={() => selectVersion(i)} 
+                                            className={`w-full group flex items-start gap-4 p-3 rounded-xl transition-all duration-300 border ${activeSession.currentIndex === i ? 'bg-[#1A1A1A] border-white/40 shadow-md scale-[1.02]' : 'border-transparent hover:bg-[#111] hover:border-white/10'}`}
+                                        >
+                                            <div className="w-16 h-16 bg-black rounded-lg border border-white/10 overflow-hidden shrink-0 relative shadow-inner">
+                                                <VersionThumb version={v} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />
                                             </div>
-                                            <p className="text-xs text-gray-300 line-clamp-2 leading-relaxed font-medium">{v.prompt}</p>
-                                        </div>
-                                    </button>
-                                ))}
+                                            <div className="flex-1 text-left min-w-0">
+                                                <div className="flex items-center justify-between mb-1 gap-2">
+                                                    <p className="text-[10px] text-gray-500 font-mono font-bold">VERSION {i+1}</p>
+                                                    <BranchSwitcher session={activeSession} version={v} onSelect={selectVersion} />
+                                                    {activeSession.currentIndex === i && <div className="w-1.5 h-1.5 bg-white rounded-full shrink-0" />}
+                                                </div>
+                                                <p className="text-xs text-gray-300 line-clamp-2 leading-relaxed font-medium">{v.prompt}</p>
+                                                {forks > 1 && (
+                                                    <p className="mt-1 flex items-center gap-1 text-[10px] font-mono text-gray-600"><BranchIcon className="w-3 h-3" />{forks} edits from here</p>
+                                                )}
+                                            </div>
+                                        </button>
+                                    );
+                                })}
                             </div>
                         </aside>
 
@@ -551,8 +1267,20 @@ export default function App() {
                              {/* Mascot Overlay */}
                             <Mascot mode={mascotMode} />
                             <MediaViewer 
-                                currentVersion={activeSession.versions[activeSession.currentIndex]}
+                                currentVersion={currentVersion}
                                 originalVersion={activeSession.versions[0]}
+                                versions={activeSession.versions}
+                                mask={selection?.versionId === currentVersion.id ? selection.mask : null}
+                                onMaskChange={mask => setSelection(mask ? { versionId: currentVersion.id, mask } : null)}
+                                onExtractFrame={handleExtractFrame}
+                                onExportSession={handleExportSession}
+                                onAdjust={handleAdjust}
+                                onReviseAdjustment={handleReviseAdjustment}
+                                onFork={handleForkSession}
+                                scale={viewerScale}
+                                onScaleChange={setViewerScale}
+                                showOriginal={showOriginal}
+                                onShowOriginalChange={setShowOriginal}
                             />
                         </main>
 
@@ -561,48 +1289,64 @@ export default function App() {
                             
                             {/* Mobile Timeline Strip (Only Visible on Mobile) */}
                             <div className="lg:hidden flex overflow-x-auto custom-scrollbar p-2 md:p-3 border-b border-white/10 gap-3 shrink-0 bg-[#080808]">
-                                 {activeSession.versions.map((v, i) => (
-                                    <button 
-                                        key={i}
-                                        onClick={() => updateSession(s => ({...s, currentIndex: i}))}
-                                        className={`w-12 h-12 md:w-14 md:h-14 rounded-lg border shrink-0 overflow-hidden relative transition-all ${activeSession.currentIndex === i ? 'border-white ring-2 ring-white/20' : 'border-white/10 opacity-50'}`}
-                                    >
-                                        <img src={v.src} className="w-full h-full object-cover" />
-                                    </button>
-                                 ))}
+                                 {activeBranch.map(v => {
+                                    const i = indexOfVersion(activeSession, v.id);
+                                    return (
+                                        <button 
+                                            key={v.id}
+                                            onClick={() => selectVersion(i)}
+                                            className={`w-12 h-12 md:w-14 md:h-14 rounded-lg border shrink-0 overflow-hidden relative transition-all ${activeSession.currentIndex === i ? 'border-white ring-2 ring-white/20' : 'border-white/10 opacity-50'}`}
+                                        >
+                                            <VersionThumb version={v} className="w-full h-full object-cover" />
+                                            {getChildren(activeSession, v.id).length > 1 && <BranchIcon className="absolute top-0.5 right-0.5 w-3 h-3 text-white drop-shadow" />}
+                                        </button>
+                                    );
+                                 })}
+                                 <div className="self-center shrink-0">
+                                    <BranchSwitcher session={activeSession} version={activeSession.versions[activeSession.currentIndex]} onSelect={selectVersion} />
+                                 </div>
                             </div>
 
                             {/* Transcript Area */}
                             <div className="flex-1 flex flex-col min-h-0">
-                                <VisionBoard transcript={activeSession.transcript} interimTranscript={interimTranscript} />
+                                <TranscriptPanel sessions={sessions} session={activeSession} interimTranscript={interimTranscript} onJump={handleJumpTo} />
                             </div>
                             
+                            <div className="bg-[#080808] border-t border-white/10">
+                                <ReferenceTray images={referenceImages} onAdd={handleAddReferences} onRemove={i => setReferenceImages(prev => prev.filter((_, j) => j !== i))} />
+                                <CommandBar onSubmit={handleTypedCommand} disabled={isLoading} dictationDisabled={isVoiceActive} />
+                            </div>
+
                             {/* Controls */}
-                            <div className="p-4 md:p-6 bg-[#080808] border-t border-white/10 shrink-0">
+                            <div className="p-4 md:p-6 bg-[#080808] shrink-0">
                                 <button 
-                                    onClick={isLive ? stopSession : handleStartLiveSession} 
+                                    onClick={isVoiceActive ? stopSession : handleStartLiveSession} 
                                     disabled={isLoading}
                                     className={`
                                         w-full py-3 md:py-4 rounded-full flex items-center justify-center gap-3 font-mono text-xs md:text-sm font-bold tracking-widest transition-all duration-300 shadow-lg
-                                        ${isLive ? 'bg-red-950/30 border border-red-500 text-red-400 hover:bg-red-900/50' : 'bg-white text-black border border-white hover:bg-gray-200 transform hover:-translate-y-1 hover:shadow-white/20'}
+                                        ${liveStatus === 'live' ? 'bg-red-950/30 border border-red-500 text-red-400 hover:bg-red-900/50'
+                                            : isVoiceActive ? 'bg-amber-950/30 border border-amber-500 text-amber-400 hover:bg-amber-900/50'
+                                            : 'bg-white text-black border border-white hover:bg-gray-200 transform hover:-translate-y-1 hover:shadow-white/20'}
                                         ${isLoading ? 'opacity-50 cursor-not-allowed transform-none' : ''}
                                     `}
                                 >
-                                    {isLive ? (
+                                    {isVoiceActive ? (
                                         <>
                                             <span className="relative flex h-2.5 w-2.5 md:h-3 md:w-3">
-                                              <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-red-500 opacity-75"></span>
-                                              <span className="relative inline-flex rounded-full h-2.5 w-2.5 md:h-3 md:w-3 bg-red-500"></span>
+                                              <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${liveStatus === 'live' ? 'bg-red-500' : 'bg-amber-500'}`}></span>
+                                              <span className={`relative inline-flex rounded-full h-2.5 w-2.5 md:h-3 md:w-3 ${liveStatus === 'live' ? 'bg-red-500' : 'bg-amber-500'}`}></span>
                                             </span>
-                                            STOP LISTENING
+                                            {liveStatus === 'live' ? 'STOP LISTENING' : liveStatus === 'connecting' ? 'CONNECTING...' : 'RECONNECTING...'}
                                         </>
                                     ) : (
                                         <>
                                             <MicIcon className="w-4 h-4 md:w-5 md:h-5" />
-                                            ASK FORGY
+                                            {liveStatus === 'failed' ? 'RETRY VOICE' : 'ASK FORGY'}
                                         </>
                                     )}
                                 </button>
+                                {liveStatus === 'reconnecting' && <p className="mt-2 text-center text-[10px] md:text-xs font-mono text-amber-400/80">Connection dropped. Picking up where you left off...</p>}
+                                {liveStatus === 'failed' && liveError && <p className="mt-2 text-center text-[10px] md:text-xs font-mono text-red-400">{liveError}</p>}
                             </div>
                         </aside>
                     </>
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { AdjustmentOperation, FilterName, MediaVersion } from '../types';
+import { FILTER_NAMES, centerCrop, describeOperation } from '../services/adjustments';
+import { maskBounds } from '../services/maskUtils';
+import { loadImage } from '../services/mediaUtils';
+
+type ToneKind = 'exposure' | 'contrast' | 'saturation';
+
+const TONE_RANGES: Record<ToneKind, { min: number, max: number, label: string }> = {
+    exposure: { min: -2, max: 2, label: 'EXPOSURE' },
+    contrast: { min: -1, max: 1, label: 'CONTRAST' },
+    saturation: { min: -1, max: 1, label: 'SATURATION' },
+};
+
+const ASPECTS: [string, number][] = [['1:1', 1], ['4:3', 4 / 3], ['16:9', 16 / 9], ['9:16', 9 / 16]];
+const RESIZE_STEPS = [0.75, 0.5, 0.25];
+
+const toneOperation = (kind: ToneKind, value: number): AdjustmentOperation =>
+    kind === 'exposure' ? { kind, stops: value } : { kind, amount: value };
+
+const toneValue = (operation: AdjustmentOperation) =>
+    operation.kind === 'exposure' ? operation.stops : operation.kind === 'contrast' || operation.kind === 'saturation' ? operation.amount : 0;
+
+interface AdjustPanelProps {
+    version: MediaVersion;
+    mask: string | null;
+    onApply: (operations: AdjustmentOperation[]) => void;
+    // Re-runs the current version's own operation with new parameters on a new branch.
+    onRevise: (operation: AdjustmentOperation) => void;
+}
+
+const chip = 'px-2.5 py-1 rounded-full border border-white/10 hover:bg-white hover:text-black transition-colors';
+
+const AdjustPanel = ({ version, mask, onApply, onRevise }: AdjustPanelProps) => {
+    const [size, setSize] = useState<{ width: number, height: number } | null>(null);
+    const [tone, setTone] = useState<Record<ToneKind, number>>({ exposure: 0, contrast: 0, saturation: 0 });
+    const [revision, setRevision] = useState<AdjustmentOperation | undefined>(version.operation);
+
+    useEffect(() => {
+        setRevision(version.operation);
+        loadImage(version.src).then(img => setSize({ width: img.naturalWidth, height: img.naturalHeight })).catch(() => setSize(null));
+    }, [version]);
+
+    const applyTone = () => {
+        const operations = (Object.keys(tone) as ToneKind[]).filter(k => tone[k] !== 0).map(k => toneOperation(k, tone[k]));
+        if (operations.length === 0) return;
+        onApply(operations);
+        setTone({ exposure: 0, contrast: 0, saturation: 0 });
+    };
+
+    const cropToSelection = async () => {
+        const bounds = mask && await maskBounds(mask);
+        if (bounds) onApply([{ kind: 'crop', ...bounds }]);
+    };
+
+    const renderRevision = (operation: AdjustmentOperation) => {
+        switch (operation.kind) {
+            case 'exposure':
+            case 'contrast':
+            case 'saturation': {
+                const range = TONE_RANGES[operation.kind];
+                return <input type="range" min={range.min} max={range.max} step={0.05} value={toneValue(operation)} onChange={e => setRevision(toneOperation(operation.kind as ToneKind, Number(e.target.value)))} className="w-full accent-white" />;
+            }
+            case 'rotate':
+                return <input type="range" min={-180} max={180} step={1} value={operation.degrees} onChange={e => setRevision({ kind: 'rotate', degrees: Number(e.target.value) })} className="w-full accent-white" />;
+            case 'flip':
+                return (
+                    <div className="flex gap-1.5">
+                        {(['horizontal', 'vertical'] as const).map(axis => (
+                            <button key={axis} onClick={() => setRevision({ kind: 'flip', axis })} className={`${chip} ${operation.axis === axis ? 'bg-white text-black' : ''}`}>{axis.toUpperCase()}</button>
+                        ))}
+                    </div>
+                );
+            case 'filter':
+                return (
+                    <div className="flex flex-wrap gap-1.5">
+                        {FILTER_NAMES.map(name => (
+                            <button key={name} onClick={() => setRevision({ kind: 'filter', name })} className={`${chip} ${operation.name === name ? 'bg-white text-black' : ''}`}>{name.toUpperCase()}</button>
+                        ))}
+                    </div>
+                );
+            default:
+                return <p className="text-gray-600">Crop and resize are replayed as-is; select the parent version to redo them.</p>;
+        }
+    };
+
+    return (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-72 max-h-[60vh] overflow-y-auto custom-scrollbar p-4 bg-[#111] border border-white/10 rounded-2xl shadow-2xl space-y-4 font-mono text-[10px] md:text-xs text-gray-300">
+            {version.operation && revision && (
+                <section className="space-y-2 pb-4 border-b border-white/10">
+                    <p className="text-gray-500">REVISE · {describeOperation(revision)}</p>
+                    {renderRevision(revision)}
+                    {revision.kind !== 'crop' && revision.kind !== 'resize' && (
+                        <button onClick={() => onRevise(revision)} className="w-full py-1.5 rounded-full bg-white text-black font-bold hover:bg-gray-200 transition-colors">APPLY AS NEW BRANCH</button>
+                    )}
+                </section>
+            )}
+
+            <section className="space-y-2">
+                <p className="text-gray-500">TRANSFORM</p>
+                <div className="flex flex-wrap gap-1.5">
+                    <button onClick={() => onApply([{ kind: 'rotate', degrees: -90 }])} className={chip}>⟲ 90°</button>
+                    <button onClick={() => onApply([{ kind: 'rotate', degrees: 90 }])} className={chip}>⟳ 90°</button>
+                    <button onClick={() => onApply([{ kind: 'flip', axis: 'horizontal' }])} className={chip}>FLIP H</button>
+                    <button onClick={() => onApply([{ kind: 'flip', axis: 'vertical' }])} className={chip}>FLIP V</button>
+                </div>
+            </section>
+
+            <section className="space-y-2">
+                <p className="text-gray-500">CROP</p>
+                <div className="flex flex-wrap gap-1.5">
+                    {mask && <button onClick={cropToSelection} className={chip}>SELECTION</button>}
+                    {size && ASPECTS.map(([label, aspect]) => (
+                        <button key={label} onClick={() => onApply([centerCrop(aspect, size.width, size.height)])} className={chip}>{label}</button>
+                    ))}
+                </div>
+            </section>
+
+            {size && (
+                <section className="space-y-2">
+                    <p className="text-gray-500">RESIZE · {size.width} × {size.height}</p>
+                    <div className="flex flex-wrap gap-1.5">
+                        {RESIZE_STEPS.map(step => (
+                            <button key={step} onClick={() => onApply([{ kind: 'resize', width: Math.round(size.width * step), height: Math.round(size.height * step) }])} className={chip}>{step * 100}%</button>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            <section className="space-y-2">
+                {(Object.keys(TONE_RANGES) as ToneKind[]).map(kind => (
+                    <label key={kind} className="flex items-center gap-2">
+                        <span className="w-20 text-gray-500">{TONE_RANGES[kind].label}</span>
+                        <input type="range" min={TONE_RANGES[kind].min} max={TONE_RANGES[kind].max} step={0.05} value={tone[kind]} onChange={e => setTone(t => ({ ...t, [kind]: Number(e.target.value) }))} className="flex-1 accent-white" />
+                        <span className="w-9 text-right tabular-nums">{tone[kind].toFixed(2)}</span>
+                    </label>
+                ))}
+                <button onClick={applyTone} disabled={Object.values(tone).every(v => v === 0)} className="w-full py-1.5 rounded-full border border-white/20 hover:bg-white/10 disabled:opacity-30 transition-colors">APPLY TONE</button>
+            </section>
+
+            <section className="space-y-2">
+                <p className="text-gray-500">FILTERS</p>
+                <div className="flex flex-wrap gap-1.5">
+                    {FILTER_NAMES.map((name: FilterName) => (
+                        <button key={name} onClick={() => onApply([{ kind: 'filter', name }])} className={chip}>{name.toUpperCase()}</button>
+                    ))}
+                </div>
+            </section>
+        </div>
+    );
+};
+
+export default AdjustPanel;
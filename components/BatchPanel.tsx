@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { BatchItem, parseSteps } from '../services/batchService';
+import { deleteRecipe, describeStep, fillPlaceholders, listRecipes, placeholdersOf, Recipe, saveRecipe } from '../services/recipes';
+import { useBatchRunner } from '../hooks/useBatchRunner';
+import { DownloadIcon, PlusIcon, RefreshCcwIcon, XIcon } from './icons';
+
+const CONCURRENCY = [1, 2, 3, 4];
+
+const STATUS_STYLES: Record<BatchItem['status'], string> = {
+    queued: 'text-gray-500',
+    running: 'text-amber-400',
+    done: 'text-green-400',
+    failed: 'text-red-400',
+};
+
+interface BatchPanelProps {
+    batch: ReturnType<typeof useBatchRunner>;
+    onClose: () => void;
+    onDownload: () => void;
+    // Opens a finished item as a normal session, one version per step.
+    onOpenResult: (item: BatchItem) => void;
+}
+
+const BatchPanel = ({ batch, onClose, onDownload, onOpenResult }: BatchPanelProps) => {
+    const { items, isRunning, addFiles, removeItem, clear, run, stop } = batch;
+    const [stepsText, setStepsText] = useState('');
+    const [concurrency, setConcurrency] = useState(2);
+    const [recipes, setRecipes] = useState(listRecipes);
+    const [recipeName, setRecipeName] = useState('');
+    // A picked recipe is run as saved, so adjustments in it stay adjustments; the text box is read-only meanwhile.
+    const [picked, setPicked] = useState<Recipe | null>(null);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const [isDragging, setIsDragging] = useState(false);
+    const [addErrors, setAddErrors] = useState<string[]>([]);
+
+    const baseSteps = picked?.steps ?? parseSteps(stepsText);
+    const placeholders = placeholdersOf(baseSteps);
+    const filled = fillPlaceholders(baseSteps, values);
+    const steps = 'steps' in filled ? filled.steps : [];
+    const counts = { queued: 0, running: 0, done: 0, failed: 0 };
+    items.forEach(item => counts[item.status]++);
+
+    const handleAddFiles = async (files: File[]) => setAddErrors(await addFiles(files));
+
+    const handleSaveRecipe = () => {
+        if (!recipeName.trim() || baseSteps.length === 0) return;
+        saveRecipe(recipeName, baseSteps);
+        setRecipes(listRecipes());
+        setRecipeName('');
+    };
+
+    const handleDeleteRecipe = (id: string) => {
+        deleteRecipe(id);
+        setRecipes(listRecipes());
+        if (picked?.id === id) setPicked(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div
+                className={`w-full max-w-5xl h-[90vh] flex flex-col bg-[#0f0f0f] border rounded-2xl shadow-2xl font-mono overflow-hidden ${isDragging ? 'border-white/60' : 'border-white/10'}`}
+                onClick={e => e.stopPropagation()}
+                onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={e => { e.preventDefault(); setIsDragging(false); handleAddFiles(Array.from(e.dataTransfer.files)); }}
+            >
+                <div className="flex items-center justify-between p-4 md:p-5 border-b border-white/10">
+                    <h2 className="text-sm font-bold tracking-widest text-white">BATCH</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+                </div>
+
+                <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+                    <section className="md:w-80 shrink-0 p-4 md:p-5 space-y-4 border-b md:border-b-0 md:border-r border-white/10 overflow-y-auto custom-scrollbar">
+                        <label className="block">
+                            <span className="block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500">Edits, one per line</span>
+                            <textarea
+                                value={picked ? picked.steps.map(describeStep).join('\n') : stepsText}
+                                onChange={e => setStepsText(e.target.value)}
+                                readOnly={!!picked}
+                                rows={5}
+                                placeholder={'white background\nsoft shadow under the product\n{color} ribbon'}
+                                className={`w-full bg-black border border-white/10 rounded-lg px-3 py-2 text-xs resize-y focus:outline-none focus:border-white/40 ${picked ? 'text-gray-500' : 'text-white'}`}
+                            />
+                            <span className="block mt-1 text-[10px] text-gray-600">
+                                {picked ? <>Running recipe "{picked.name}". <button onClick={() => setPicked(null)} className="underline underline-offset-2 hover:text-white">Type edits instead</button></> : 'Each line runs on the result of the one before.'}
+                            </span>
+                        </label>
+
+                        {placeholders.length > 0 && (
+                            <div className="space-y-1.5">
+                                {placeholders.map(name => (
+                                    <input
+                                        key={name}
+                                        value={values[name] ?? ''}
+                                        onChange={e => setValues(v => ({ ...v, [name]: e.target.value }))}
+                                        placeholder={`{${name}}`}
+                                        className="w-full bg-black border border-white/10 rounded-full px-3 py-1.5 text-xs text-white focus:outline-none focus:border-white/40"
+                                    />
+                                ))}
+                            </div>
+                        )}
+
+                        <div>
+                            <span className="block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500">Recipes</span>
+                            {recipes.length === 0 && <p className="text-[10px] text-gray-600">No saved recipes yet.</p>}
+                            <div className="flex flex-wrap gap-1.5">
+                                {recipes.map(r => (
+                                    <span key={r.id} className={`flex items-center rounded-full border text-xs ${picked?.id === r.id ? 'border-white/60 text-white' : 'border-white/10 text-gray-300'}`}>
+                                        <button onClick={() => setPicked(r)} title={r.steps.map(describeStep).join(' → ')} className="pl-3 pr-1 py-1 hover:text-white">{r.name}</button>
+                                        <button onClick={() => handleDeleteRecipe(r.id)} className="pr-2 pl-1 py-1 text-gray-600 hover:text-red-400"><XIcon className="w-3 h-3" /></button>
+                                    </span>
+                                ))}
+                            </div>
+                            <div className="mt-2 flex gap-1.5">
+                                <input
+                                    value={recipeName}
+                                    onChange={e => setRecipeName(e.target.value)}
+                                    onKeyDown={e => e.key === 'Enter' && handleSaveRecipe()}
+                                    placeholder="Recipe name"
+                                    className="flex-1 min-w-0 bg-black border border-white/10 rounded-full px-3 py-1.5 text-xs text-white focus:outline-none focus:border-white/40"
+                                />
+                                <button onClick={handleSaveRecipe} disabled={!recipeName.trim() || baseSteps.length === 0} className="px-3 rounded-full border border-white/10 text-xs text-gray-300 hover:bg-white/10 disabled:opacity-30">SAVE</button>
+                            </div>
+                        </div>
+
+                        <div>
+                            <span className="block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500">At the same time</span>
+                            <div className="flex gap-1 p-1 bg-black rounded-full">
+                                {CONCURRENCY.map(n => (
+                                    <button key={n} onClick={() => setConcurrency(n)} className={`flex-1 py-1 rounded-full text-xs transition-colors ${concurrency === n ? 'bg-white text-black font-bold' : 'text-gray-300 hover:bg-white/10'}`}>{n}</button>
+                                ))}
+                            </div>
+                        </div>
+                    </section>
+
+                    <section className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-4 md:p-5">
+                        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                            {items.map(item => {
+                                const preview = item.results[item.results.length - 1] ?? item.source;
+                                return (
+                                    <div key={item.id} className="group relative rounded-xl border border-white/10 bg-black overflow-hidden">
+                                        <img src={preview} alt={item.name} className={`w-full aspect-square object-cover ${item.status === 'running' ? 'opacity-50 animate-pulse' : ''}`} />
+                                        {item.status !== 'running' && (
+                                            <button onClick={() => removeItem(item.id)} className="absolute top-1.5 right-1.5 p-1 rounded-full bg-black/70 text-gray-400 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"><XIcon className="w-3 h-3" /></button>
+                                        )}
+                                        <div className="p-2 space-y-1">
+                                            <p className="text-[10px] text-gray-300 truncate" title={item.name}>{item.name}</p>
+                                            <div className="flex items-center justify-between gap-2 text-[10px]">
+                                                <span className={`uppercase ${STATUS_STYLES[item.status]}`}>
+                                                    {item.status}{item.status === 'running' && item.steps.length > 1 ? ` ${item.results.length + 1}/${item.steps.length}` : ''}
+                                                </span>
+                                                {item.status === 'failed' && (
+                                                    <button onClick={() => run(steps, 1, [item.id])} disabled={isRunning} title="Retry" className="text-gray-400 hover:text-white disabled:opacity-30"><RefreshCcwIcon className="w-3 h-3" /></button>
+                                                )}
+                                                {item.status === 'done' && (
+                                                    <button onClick={() => onOpenResult(item)} className="text-gray-400 hover:text-white underline underline-offset-2">OPEN</button>
+                                                )}
+                                            </div>
+                                            {item.error && <p className="text-[10px] text-red-400/80 line-clamp-2" title={item.error}>{item.error}</p>}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            <label className="flex flex-col items-center justify-center gap-2 aspect-square rounded-xl border-2 border-dashed border-white/15 text-gray-600 hover:text-white hover:border-white/40 cursor-pointer transition-colors">
+                                <PlusIcon className="w-6 h-6" />
+                                <span className="text-[10px] text-center px-2">Add or drop images</span>
+                                <input type="file" multiple accept="image/*" className="hidden" onChange={e => { handleAddFiles(Array.from(e.target.files ?? [])); e.target.value = ''; }} />
+                            </label>
+                        </div>
+                    </section>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3 p-4 md:p-5 border-t border-white/10">
+                    <span className="text-[10px] text-gray-500">
+                        {addErrors.length > 0 && <span className="block mb-1 text-red-400" title={addErrors.join('\n')}>{addErrors[0]}{addErrors.length > 1 ? ` (and ${addErrors.length - 1} more)` : ''}</span>}
+                        {items.length} IMAGES · {counts.done} DONE · {counts.running} RUNNING · {counts.failed} FAILED
+                    </span>
+                    <div className="flex items-center gap-2">
+                        <button onClick={clear} disabled={items.length === 0 || isRunning} className="px-4 py-2 rounded-full text-xs text-gray-500 hover:text-white disabled:opacity-30">CLEAR</button>
+                        <button onClick={onDownload} disabled={counts.done === 0} className="flex items-center gap-2 px-4 py-2 rounded-full border border-white/10 text-xs text-gray-300 hover:bg-white/10 disabled:opacity-30">
+                            <DownloadIcon className="w-3.5 h-3.5" /> DOWNLOAD ALL
+                        </button>
+                        {isRunning ? (
+                            <button onClick={stop} className="px-5 py-2 rounded-full border border-red-500 text-red-400 text-xs font-bold hover:bg-red-900/40">STOP</button>
+                        ) : (
+                            <button
+                                onClick={() => run(steps, concurrency)}
+                                disabled={!(counts.failed > 0 || (counts.queued > 0 && steps.length > 0))}
+                                className="px-5 py-2 rounded-full bg-white text-black text-xs font-bold hover:bg-gray-200 disabled:opacity-30 transition-colors"
+                            >
+                                {counts.queued === 0 && counts.failed > 0 ? 'RETRY FAILED' : 'RUN'}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BatchPanel;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Collaboration } from '../hooks/useCollaboration';
+import { CollabStatus, Invite, getCollabSettings, inviteLink } from '../services/collab';
+import { describePeer } from './PeerAvatars';
+import { XIcon } from './icons';
+
+const field = 'w-full bg-black border border-white/10 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-white/40';
+const label = 'block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500';
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+    offline: 'NOT SHARING',
+    connecting: 'CONNECTING...',
+    connected: 'LIVE',
+    reconnecting: 'RECONNECTING...',
+};
+
+interface CollabPanelProps {
+    collab: Collaboration;
+    // The open session and its label, which "start sharing" shares.
+    sessionId: string | null;
+    sessionTitle: string | null;
+    // Set when the page was opened from an invite link that hasn't been acted on.
+    invite: Invite | null;
+    // Joining waits for saved sessions to load, so a local copy of the shared session is merged, not duplicated.
+    canJoin: boolean;
+    onJoin: (invite: Invite) => void;
+    onDismissInvite: () => void;
+    onShowShared: () => void;
+    onClose: () => void;
+}
+
+const CollabPanel = ({ collab, sessionId, sessionTitle, invite, canJoin, onJoin, onDismissInvite, onShowShared, onClose }: CollabPanelProps) => {
+    const [name, setName] = useState(collab.self.name);
+    const [relayUrl, setRelayUrl] = useState(invite?.relayUrl ?? getCollabSettings().relayUrl);
+    const [copied, setCopied] = useState(false);
+    const link = collab.roomId ? inviteLink({ roomId: collab.roomId, relayUrl: getCollabSettings().relayUrl }) : null;
+
+    const copyLink = async () => {
+        if (!link) return;
+        await navigator.clipboard.writeText(link);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 1500);
+    };
+
+    const renderParticipant = (peer: Collaboration['self'], isSelf: boolean) => (
+        <li key={peer.id} className="flex items-center gap-2 text-xs text-gray-300">
+            <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: peer.color }} />
+            <span className="truncate">{describePeer(peer)}{isSelf ? ' (you)' : ''}</span>
+        </li>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="w-full max-w-md max-h-[90vh] overflow-y-auto custom-scrollbar bg-[#0f0f0f] border border-white/10 rounded-2xl shadow-2xl p-5 md:p-6 space-y-5 font-mono" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-sm font-bold tracking-widest text-white">COLLABORATE</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+                </div>
+
+                <section>
+                    <span className={label}>Your name</span>
+                    <input
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                        onBlur={() => collab.rename(name.trim())}
+                        placeholder="Shown to the others"
+                        className={field}
+                    />
+                </section>
+
+                {collab.roomId ? (
+                    <>
+                        <section className="space-y-2">
+                            <span className={label}>
+                                <span className={collab.status === 'connected' ? 'text-green-400' : 'text-amber-400'}>{STATUS_LABELS[collab.status]}</span>
+                            </span>
+                            <div className="flex gap-2">
+                                <input readOnly value={link ?? ''} onFocus={e => e.target.select()} className={`${field} text-gray-400`} />
+                                <button onClick={copyLink} className="px-3 rounded-lg border border-white/10 text-xs text-gray-300 hover:bg-white/10 hover:text-white transition-colors shrink-0">{copied ? 'COPIED' : 'COPY'}</button>
+                            </div>
+                            <p className="text-[10px] text-gray-500">Anyone who can reach the relay can open this link to join.</p>
+                        </section>
+                        <section>
+                            <span className={label}>In this session</span>
+                            <ul className="space-y-1.5">
+                                {renderParticipant(collab.self, true)}
+                                {collab.peers.map(peer => renderParticipant(peer, false))}
+                            </ul>
+                            {collab.peers.length === 0 && collab.status === 'connected' && <p className="mt-2 text-[10px] text-gray-600">Nobody else yet.</p>}
+                        </section>
+                        <div className="flex justify-end gap-2">
+                            {sessionId !== collab.roomId && (
+                                <button onClick={onShowShared} className="px-4 py-2 rounded-full border border-white/10 text-xs text-gray-300 hover:bg-white/10 transition-colors">SHOW SHARED SESSION</button>
+                            )}
+                            <button onClick={collab.leave} className="px-4 py-2 rounded-full border border-red-500/40 text-xs text-red-300 hover:bg-red-950/40 transition-colors">STOP SHARING</button>
+                        </div>
+                    </>
+                ) : (
+                    <>
+                        <section>
+                            <span className={label}>Relay</span>
+                            <input value={relayUrl} onChange={e => setRelayUrl(e.target.value)} placeholder="ws://192.168.1.20:8787" className={field} />
+                            <p className="mt-1.5 text-[10px] text-gray-500">Start one on any machine on your network with <span className="text-gray-300">npm run relay</span>.</p>
+                        </section>
+                        {invite ? (
+                            <div className="flex justify-end gap-2">
+                                <button onClick={onDismissInvite} className="px-4 py-2 rounded-full border border-white/10 text-xs text-gray-300 hover:bg-white/10 transition-colors">NOT NOW</button>
+                                <button onClick={() => onJoin({ roomId: invite.roomId, relayUrl: relayUrl.trim() })} disabled={!canJoin || !relayUrl.trim()} className="px-5 py-2 rounded-full bg-white text-black text-xs font-bold disabled:opacity-30 transition-opacity">JOIN SHARED SESSION</button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center justify-between gap-3">
+                                <p className="text-[10px] text-gray-500 truncate">{sessionTitle ? `Shares ${sessionTitle}` : 'Open a session to share it.'}</p>
+                                <button onClick={() => sessionId && collab.share(sessionId, relayUrl.trim())} disabled={!sessionId || !relayUrl.trim()} className="px-5 py-2 rounded-full bg-white text-black text-xs font-bold disabled:opacity-30 transition-opacity shrink-0">START SHARING</button>
+                            </div>
+                        )}
+                    </>
+                )}
+
+                {collab.error && <p className="text-[10px] text-red-400">{collab.error}</p>}
+            </div>
+        </div>
+    );
+};
+
+export default CollabPanel;
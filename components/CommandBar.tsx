@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import useSpeechRecognition from '../hooks/useSpeechRecognition';
+import { getSettings } from '../services/settings';
+import { MicIcon, SparklesIcon } from './icons';
+
+interface CommandBarProps {
+    onSubmit: (command: string) => void;
+    disabled: boolean;
+    // Browser dictation shares the microphone with the live session, so it is off while that runs.
+    dictationDisabled: boolean;
+}
+
+// Typed (or locally dictated) edit commands for when talking to the live model isn't an option.
+const CommandBar = ({ onSubmit, disabled, dictationDisabled }: CommandBarProps) => {
+    const [command, setCommand] = useState('');
+    const { isListening, transcript, startListening, stopListening, hasRecognitionSupport } = useSpeechRecognition(getSettings().transcriptionLanguage || navigator.language);
+
+    useEffect(() => {
+        if (isListening) setCommand(transcript);
+    }, [isListening, transcript]);
+
+    useEffect(() => {
+        if (dictationDisabled) stopListening();
+    }, [dictationDisabled]);
+
+    const submit = (text: string) => {
+        if (!text.trim() || disabled) return;
+        onSubmit(text.trim());
+        setCommand('');
+    };
+
+    // Stopping dictation sends what was heard, so a spoken command needs no extra click.
+    const toggleDictation = () => {
+        if (isListening) {
+            stopListening();
+            submit(transcript);
+        } else {
+            startListening();
+        }
+    };
+
+    return (
+        <form
+            className="mx-4 md:mx-6 mt-3 flex items-center gap-2 p-1.5 bg-[#0f0f0f] border border-white/10 rounded-full focus-within:border-white/40 transition-colors"
+            onSubmit={e => { e.preventDefault(); if (isListening) stopListening(); submit(command); }}
+        >
+            <input
+                value={command}
+                onChange={e => setCommand(e.target.value)}
+                placeholder={isListening ? 'Listening...' : 'Type an edit, e.g. "add a red hat"'}
+                className="flex-1 min-w-0 bg-transparent px-3 text-xs md:text-sm font-mono text-white placeholder-gray-600 focus:outline-none"
+            />
+            {hasRecognitionSupport && (
+                <button
+                    type="button"
+                    onClick={toggleDictation}
+                    disabled={dictationDisabled || disabled}
+                    title={dictationDisabled ? 'Dictation is off while the live session runs' : isListening ? 'Stop and send' : 'Dictate with browser speech recognition'}
+                    className={`p-2 rounded-full transition-colors disabled:opacity-30 ${isListening ? 'bg-red-500 text-white animate-pulse' : 'text-gray-400 hover:text-white hover:bg-white/10'}`}
+                >
+                    <MicIcon className="w-4 h-4" />
+                </button>
+            )}
+            <button type="submit" disabled={disabled || !command.trim()} className="p-2 rounded-full bg-white text-black disabled:opacity-30 transition-opacity">
+                <SparklesIcon className="w-4 h-4" />
+            </button>
+        </form>
+    );
+};
+
+export default CommandBar;
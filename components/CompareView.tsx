@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaVersion } from '../types';
+import { computeDiff, DiffResult } from '../services/imageDiff';
+import { RefreshCcwIcon, XIcon } from './icons';
+
+type CompareMode = 'split' | 'side' | 'onion' | 'diff';
+
+const MODES: { id: CompareMode, label: string }[] = [
+    { id: 'split', label: 'SPLIT' },
+    { id: 'side', label: 'SIDE BY SIDE' },
+    { id: 'onion', label: 'ONION SKIN' },
+    { id: 'diff', label: 'DIFF' },
+];
+
+const MAX_ZOOM = 8;
+
+interface CompareViewProps {
+    versions: MediaVersion[];
+    initialA: string;
+    initialB: string;
+    onClose: () => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Compares two image versions of a session. Zoom (wheel) and pan (drag) are shared by every pane, so both
+// sides always show the same region.
+const CompareView = ({ versions, initialA, initialB, onClose }: CompareViewProps) => {
+    const [mode, setMode] = useState<CompareMode>('split');
+    const [aId, setAId] = useState(initialA);
+    const [bId, setBId] = useState(initialB);
+    const [split, setSplit] = useState(0.5);
+    const [opacity, setOpacity] = useState(0.5);
+    const [threshold, setThreshold] = useState(16);
+    const [view, setView] = useState({ scale: 1, x: 0, y: 0 });
+    const [diff, setDiff] = useState<DiffResult | null>(null);
+    const [diffError, setDiffError] = useState<string | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ kind: 'pan', startX: number, startY: number, originX: number, originY: number } | { kind: 'split' } | null>(null);
+
+    const images = versions.filter(v => v.type === 'image');
+    const a = images.find(v => v.id === aId) ?? images[0];
+    const b = images.find(v => v.id === bId) ?? images[images.length - 1];
+    const label = (v: MediaVersion) => `VERSION ${versions.indexOf(v) + 1}`;
+
+    useEffect(() => {
+        const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+        window.addEventListener('keydown', onKey);
+        return () => window.removeEventListener('keydown', onKey);
+    }, [onClose]);
+
+    // Debounced so dragging the threshold slider doesn't queue a diff per step.
+    useEffect(() => {
+        if (mode !== 'diff') return;
+        let cancelled = false;
+        setDiffError(null);
+        const timeout = setTimeout(() => {
+            computeDiff(a.src, b.src, threshold)
+                .then(result => { if (!cancelled) setDiff(result); })
+                .catch(e => {
+                    console.error(e);
+                    if (!cancelled) setDiffError("Could not compare these versions.");
+                });
+        }, 150);
+        return () => { cancelled = true; clearTimeout(timeout); };
+    }, [mode, a.src, b.src, threshold]);
+
+    useEffect(() => setDiff(null), [a.src, b.src]);
+
+    const handleWheel = (e: React.WheelEvent) => {
+        setView(v => {
+            const scale = clamp(v.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15), 1, MAX_ZOOM);
+            return scale === 1 ? { scale, x: 0, y: 0 } : { ...v, scale };
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { kind: 'pan', startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y };
+    };
+
+    const handleSplitPointerDown = (e: React.PointerEvent) => {
+        e.stopPropagation();
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { kind: 'split' };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        if (drag.kind === 'split') {
+            const rect = containerRef.current!.getBoundingClientRect();
+            setSplit(clamp((e.clientX - rect.left) / rect.width, 0, 1));
+        } else if (view.scale > 1) {
+            setView(v => ({ ...v, x: drag.originX + e.clientX - drag.startX, y: drag.originY + e.clientY - drag.startY }));
+        }
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+    };
+
+    const layer = (src: string, style?: React.CSSProperties) => (
+        <div className="absolute inset-0 flex items-center justify-center p-4 md:p-16 pointer-events-none" style={style}>
+            <img
+                src={src}
+                alt=""
+                draggable={false}
+                className="max-w-full max-h-full object-contain select-none shadow-2xl ring-1 ring-white/10 rounded-sm"
+                style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+            />
+        </div>
+    );
+
+    const tag = (text: string, side: 'left' | 'right') => (
+        <span className={`absolute top-3 ${side === 'left' ? 'left-3' : 'right-3'} px-2 py-0.5 rounded-full bg-black/70 text-[10px] font-mono text-gray-300 pointer-events-none`}>{text}</span>
+    );
+
+    const versionSelect = (value: string, onChange: (id: string) => void) => (
+        <select value={value} onChange={e => onChange(e.target.value)} className="max-w-36 md:max-w-48 bg-transparent border border-white/10 rounded-full px-2 py-1 text-[10px] md:text-xs font-mono text-gray-300 focus:outline-none">
+            {images.map(v => <option key={v.id} value={v.id} className="bg-black">{label(v)} · {v.prompt.slice(0, 30)}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="absolute inset-0 z-[60] flex flex-col bg-[#080808] font-mono">
+            <div className="flex flex-wrap items-center justify-center gap-2 p-2 md:p-3 border-b border-white/10 bg-[#050505]">
+                <div className="flex gap-1 p-1 bg-black rounded-full">
+                    {MODES.map(m => (
+                        <button key={m.id} onClick={() => setMode(m.id)} className={`px-2.5 py-1 rounded-full text-[10px] md:text-xs transition-colors ${mode === m.id ? 'bg-white text-black font-bold' : 'text-gray-300 hover:bg-white/10'}`}>{m.label}</button>
+                    ))}
+                </div>
+                <span className="text-[10px] text-gray-500">A</span>
+                {versionSelect(a.id, setAId)}
+                <button onClick={() => { setAId(b.id); setBId(a.id); }} title="Swap" className="px-2 py-1 rounded-full text-xs text-gray-400 hover:text-white hover:bg-white/10">⇄</button>
+                <span className="text-[10px] text-gray-500">B</span>
+                {versionSelect(b.id, setBId)}
+                {mode === 'onion' && (
+                    <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={e => setOpacity(Number(e.target.value))} title="Opacity of B" className="w-24 accent-white" />
+                )}
+                {mode === 'diff' && (
+                    <input type="range" min={0} max={128} value={threshold} onChange={e => setThreshold(Number(e.target.value))} title={`Ignore differences up to ${threshold}`} className="w-24 accent-white" />
+                )}
+                <button onClick={() => setView({ scale: 1, x: 0, y: 0 })} title="Reset zoom" className="flex items-center gap-1 px-2 py-1 rounded-full text-[10px] text-gray-400 hover:text-white hover:bg-white/10">
+                    <RefreshCcwIcon className="w-3.5 h-3.5" /> {Math.round(view.scale * 100)}%
+                </button>
+                <button onClick={onClose} title="Close compare" className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-white/10"><XIcon className="w-4 h-4" /></button>
+            </div>
+
+            <div
+                ref={containerRef}
+                className={`relative flex-1 min-h-0 overflow-hidden touch-none ${view.scale > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+                onWheel={handleWheel}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+            >
+                {mode === 'split' && (
+                    <>
+                        {layer(a.src)}
+                        {layer(b.src, { clipPath: `inset(0 0 0 ${split * 100}%)` })}
+                        <div className="absolute top-0 bottom-0 w-px bg-white/80" style={{ left: `${split * 100}%` }}>
+                            <div
+                                onPointerDown={handleSplitPointerDown}
+                                className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white text-black flex items-center justify-center text-xs shadow-xl cursor-ew-resize"
+                            >
+                                ⇔
+                            </div>
+                        </div>
+                        {tag(`A · ${label(a)}`, 'left')}
+                        {tag(`B · ${label(b)}`, 'right')}
+                    </>
+                )}
+                {mode === 'side' && (
+                    <div className="absolute inset-0 grid grid-cols-2">
+                        <div className="relative overflow-hidden border-r border-white/10">{layer(a.src)}{tag(`A · ${label(a)}`, 'left')}</div>
+                        <div className="relative overflow-hidden">{layer(b.src)}{tag(`B · ${label(b)}`, 'left')}</div>
+                    </div>
+                )}
+                {mode === 'onion' && (
+                    <>
+                        {layer(a.src)}
+                        {layer(b.src, { opacity })}
+                        {tag(`A · ${label(a)} + B · ${label(b)} at ${Math.round(opacity * 100)}%`, 'left')}
+                    </>
+                )}
+                {mode === 'diff' && (
+                    <>
+                        {diff && layer(diff.heatmap)}
+                        {!diff && !diffError && <p className="absolute inset-0 flex items-center justify-center text-xs text-gray-500 animate-pulse">Computing difference...</p>}
+                        {diffError && <p className="absolute inset-0 flex items-center justify-center text-xs text-red-400">{diffError}</p>}
+                        {diff && (
+                            <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-3 px-3 py-1.5 rounded-full bg-black/80 text-[10px] text-gray-300 pointer-events-none">
+                                <span>{(diff.changed * 100).toFixed(diff.changed < 0.01 ? 2 : 1)}% CHANGED</span>
+                                <span className="w-24 h-1.5 rounded-full" style={{ background: 'linear-gradient(to right, #800000, #ff0000, #ffff00, #ffffff)' }} />
+                                <span className="text-gray-500">small → large</span>
+                            </div>
+                        )}
+                        {tag(`${label(a)} → ${label(b)}`, 'left')}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CompareView;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { MediaVersion } from '../types';
+import { ImageExportFormat, downloadBlob, exportImage, exportSource, versionFileName } from '../services/exportService';
+import { dataUrlToBlob } from '../services/mediaUtils';
+import { describeError } from '../services/retry';
+
+const FORMATS: ImageExportFormat[] = ['png', 'jpeg', 'webp'];
+
+interface ExportMenuProps {
+    version: MediaVersion;
+    onExportSession: () => void;
+    onClose: () => void;
+}
+
+const ExportMenu = ({ version, onExportSession, onClose }: ExportMenuProps) => {
+    const [format, setFormat] = useState<ImageExportFormat>('png');
+    const [quality, setQuality] = useState(92);
+    const [isExporting, setIsExporting] = useState(false);
+    const [exportError, setExportError] = useState<string | null>(null);
+
+    const isVideo = version.type === 'video';
+
+    const handleDownload = async () => {
+        setIsExporting(true);
+        setExportError(null);
+        try {
+            if (isVideo) {
+                downloadBlob(dataUrlToBlob(version.src), versionFileName(version));
+            } else {
+                const blob = await exportImage(exportSource(version), format, quality / 100);
+                downloadBlob(blob, versionFileName(version, format === 'jpeg' ? 'jpg' : format));
+            }
+            onClose();
+        } catch (e) {
+            setExportError(`Export failed: ${describeError(e)}`);
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    return (
+        <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-64 p-4 bg-[#111] border border-white/10 rounded-2xl shadow-2xl space-y-4 font-mono text-xs text-gray-300">
+            {!isVideo && (
+                <>
+                    <div className="flex gap-1 p-1 bg-black rounded-full">
+                        {FORMATS.map(f => (
+                            <button
+                                key={f}
+                                onClick={() => setFormat(f)}
+                                className={`flex-1 py-1.5 rounded-full uppercase transition-colors ${format === f ? 'bg-white text-black font-bold' : 'hover:bg-white/10'}`}
+                            >
+                                {f}
+                            </button>
+                        ))}
+                    </div>
+                    {format !== 'png' && (
+                        <label className="flex items-center gap-3">
+                            <span className="text-gray-500">QUALITY</span>
+                            <input type="range" min={10} max={100} value={quality} onChange={e => setQuality(Number(e.target.value))} className="flex-1 accent-white" />
+                            <span className="w-8 text-right tabular-nums">{quality}</span>
+                        </label>
+                    )}
+                </>
+            )}
+            {exportError && <p className="text-[10px] text-red-400">{exportError}</p>}
+            <button onClick={handleDownload} disabled={isExporting} className="w-full py-2 rounded-full bg-white text-black font-bold hover:bg-gray-200 disabled:opacity-50 transition-colors">
+                {isVideo ? 'DOWNLOAD CLIP' : 'DOWNLOAD VERSION'}
+            </button>
+            <div className="h-px bg-white/10" />
+            <button onClick={() => { onExportSession(); onClose(); }} className="w-full py-2 rounded-full border border-white/20 hover:bg-white/10 transition-colors">
+                EXPORT SESSION BUNDLE
+            </button>
+        </div>
+    );
+};
+
+export default ExportMenu;
@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Job } from '../services/jobQueue';
+import { XIcon } from './icons';
+
+interface JobTrayProps {
+    jobs: Job[];
+    onCancel: (id: string) => void;
+}
+
+const elapsed = (since: number, now: number) => {
+    const seconds = Math.max(0, Math.floor((now - since) / 1000));
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+// Pending model requests, oldest first, each cancellable.
+const JobTray = ({ jobs, onCancel }: JobTrayProps) => {
+    const [now, setNow] = useState(Date.now);
+
+    useEffect(() => {
+        if (jobs.length === 0) return;
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, [jobs.length > 0]);
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <div className="fixed bottom-4 left-4 z-[90] w-[min(90vw,20rem)] bg-[#0f0f0f]/95 backdrop-blur border border-white/10 rounded-2xl shadow-2xl font-mono overflow-hidden">
+            <p className="px-4 pt-3 pb-2 text-[10px] uppercase tracking-widest text-gray-500">Working on {jobs.length}</p>
+            <ul className="max-h-48 overflow-y-auto custom-scrollbar pb-1">
+                {jobs.map(job => (
+                    <li key={job.id} className="flex items-center gap-3 px-4 py-2 border-t border-white/5">
+                        <span className={`w-1.5 h-1.5 rounded-full shrink-0 ${job.status === 'running' ? 'bg-amber-400 animate-pulse' : 'bg-gray-600'}`} />
+                        <span className="flex-1 min-w-0 text-xs text-gray-300 truncate" title={job.label}>{job.label}</span>
+                        <span className="text-[10px] text-gray-500 shrink-0">{job.status === 'running' ? elapsed(job.startedAt!, now) : 'QUEUED'}</span>
+                        <button onClick={() => onCancel(job.id)} title="Cancel" className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10 shrink-0">
+                            <XIcon className="w-3 h-3" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default JobTray;
@@ -0,0 +1,328 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AdjustmentOperation, MediaVersion } from '../types';
+import { SelectionTool } from '../services/maskUtils';
+import { loadImage } from '../services/mediaUtils';
+import ExportMenu from './ExportMenu';
+import AdjustPanel from './AdjustPanel';
+import CompareView from './CompareView';
+import { ZoomInIcon, ZoomOutIcon, RefreshCcwIcon, BrushIcon, LassoIcon, SquareIcon, XIcon, PlayIcon, PauseIcon, DownloadIcon, SlidersIcon, BranchIcon } from './icons';
+
+const MASK_COLOR = '#00ff99';
+
+interface MediaViewerProps {
+    currentVersion: MediaVersion;
+    originalVersion: MediaVersion;
+    // Every version of the session, for picking what to compare.
+    versions: MediaVersion[];
+    // Alpha-only PNG at the image's natural size; null when nothing is selected.
+    mask: string | null;
+    onMaskChange: (mask: string | null) => void;
+    // Video versions only: turn the frame at `time` seconds into an editable image version.
+    onExtractFrame: (time: number) => void;
+    onExportSession: () => void;
+    onAdjust: (operations: AdjustmentOperation[]) => void;
+    onReviseAdjustment: (operation: AdjustmentOperation) => void;
+    // Starts a new session from the version on screen.
+    onFork: () => void;
+    // Zoom and compare are controlled so voice commands can drive them too.
+    scale: number;
+    onScaleChange: (scale: number) => void;
+    showOriginal: boolean;
+    onShowOriginalChange: (showOriginal: boolean) => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+const MediaViewer = ({ currentVersion, originalVersion, versions, mask, onMaskChange, onExtractFrame, onExportSession, onAdjust, onReviseAdjustment, onFork, scale, onScaleChange, showOriginal, onShowOriginalChange }: MediaViewerProps) => {
+    const [tool, setTool] = useState<SelectionTool | null>(null);
+    const [brushSize, setBrushSize] = useState(40);
+
+    const [overlayBox, setOverlayBox] = useState({ left: 0, top: 0, width: 0, height: 0 });
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [openPanel, setOpenPanel] = useState<'export' | 'adjust' | null>(null);
+    const [isComparing, setIsComparing] = useState(false);
+
+    const mediaRef = useRef<HTMLImageElement | HTMLVideoElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const lastEmittedMaskRef = useRef<string | null>(null);
+    const sizedForSrcRef = useRef<string | null>(null);
+    const strokeRef = useRef<{ points: { x: number, y: number }[], snapshot: ImageData } | null>(null);
+
+    const activeVersion = showOriginal ? originalVersion : currentVersion;
+    const isVideo = currentVersion.type === 'video';
+    // Compare defaults to the edit that produced the current version: its parent against it.
+    const compareBase = versions.find(v => v.id === currentVersion.parentId && v.type === 'image') ?? originalVersion;
+    const canCompare = !isVideo && versions.filter(v => v.type === 'image').length > 1;
+
+    // Keep the overlay glued to the laid-out media box (layout values, so zoom scales both together).
+    useEffect(() => {
+        const el = mediaRef.current;
+        if (!el) return;
+        const measure = () => setOverlayBox({ left: el.offsetLeft, top: el.offsetTop, width: el.offsetWidth, height: el.offsetHeight });
+        const observer = new ResizeObserver(measure);
+        observer.observe(el);
+        el.addEventListener('load', measure);
+        el.addEventListener('loadedmetadata', measure);
+        return () => { observer.disconnect(); el.removeEventListener('load', measure); el.removeEventListener('loadedmetadata', measure); };
+    }, [activeVersion.type]);
+
+    useEffect(() => {
+        setIsPlaying(false);
+        setCurrentTime(0);
+        setDuration(0);
+        if (isVideo) {
+            setTool(null);
+            setOpenPanel(panel => panel === 'adjust' ? null : panel);
+            setIsComparing(false);
+        }
+    }, [currentVersion.src, isVideo]);
+
+    // Size the mask canvas to the image and repaint it whenever the mask changes from outside.
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || isVideo || (mask === lastEmittedMaskRef.current && sizedForSrcRef.current === currentVersion.src)) return;
+        let cancelled = false;
+        loadImage(currentVersion.src).then(async img => {
+            if (cancelled) return;
+            canvas.width = img.naturalWidth;
+            canvas.height = img.naturalHeight;
+            const ctx = canvas.getContext('2d')!;
+            ctx.clearRect(0, 0, canvas.width, canvas.height);
+            if (mask) ctx.drawImage(await loadImage(mask), 0, 0, canvas.width, canvas.height);
+            sizedForSrcRef.current = currentVersion.src;
+            lastEmittedMaskRef.current = mask;
+        }).catch(e => console.error(e));
+        return () => { cancelled = true; };
+    }, [mask, currentVersion.src, isVideo]);
+
+    const video = () => mediaRef.current as HTMLVideoElement | null;
+
+    const togglePlayback = () => {
+        const el = video();
+        if (!el) return;
+        if (el.paused) el.play(); else el.pause();
+    };
+
+    const seek = (time: number) => {
+        const el = video();
+        if (el) el.currentTime = time;
+        setCurrentTime(time);
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = e.currentTarget;
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (e.clientX - rect.left) * canvas.width / rect.width,
+            y: (e.clientY - rect.top) * canvas.height / rect.height,
+        };
+    };
+
+    // Brush size is in screen pixels so it feels the same at every zoom level.
+    const brushInCanvasPixels = (canvas: HTMLCanvasElement) => brushSize * canvas.width / canvas.getBoundingClientRect().width;
+
+    const drawPreview = (ctx: CanvasRenderingContext2D, points: { x: number, y: number }[], final: boolean) => {
+        const canvas = ctx.canvas;
+        ctx.fillStyle = MASK_COLOR;
+        ctx.strokeStyle = MASK_COLOR;
+        if (tool === 'brush') {
+            ctx.lineCap = 'round';
+            ctx.lineJoin = 'round';
+            ctx.lineWidth = brushInCanvasPixels(canvas);
+            ctx.beginPath();
+            points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            if (points.length === 1) ctx.lineTo(points[0].x + 0.01, points[0].y);
+            ctx.stroke();
+        } else if (tool === 'rect') {
+            const start = points[0];
+            const end = points[points.length - 1];
+            ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+        } else if (tool === 'lasso') {
+            ctx.beginPath();
+            points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+            if (final) {
+                ctx.closePath();
+                ctx.fill();
+            } else {
+                ctx.lineWidth = Math.max(2, canvas.width / 300);
+                ctx.stroke();
+            }
+        }
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (!tool) return;
+        const ctx = e.currentTarget.getContext('2d')!;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        strokeRef.current = { points: [toCanvasPoint(e)], snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height) };
+        drawPreview(ctx, strokeRef.current.points, false);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        const ctx = e.currentTarget.getContext('2d')!;
+        stroke.points.push(toCanvasPoint(e));
+        ctx.putImageData(stroke.snapshot, 0, 0);
+        drawPreview(ctx, stroke.points, false);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = strokeRef.current;
+        if (!stroke) return;
+        strokeRef.current = null;
+        const canvas = e.currentTarget;
+        const ctx = canvas.getContext('2d')!;
+        ctx.putImageData(stroke.snapshot, 0, 0);
+        drawPreview(ctx, stroke.points, true);
+        const next = canvas.toDataURL('image/png');
+        lastEmittedMaskRef.current = next;
+        onMaskChange(next);
+    };
+
+    const clearMask = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+        lastEmittedMaskRef.current = null;
+        onMaskChange(null);
+    };
+
+    const toolButton = (id: SelectionTool, Icon: (props: { className?: string }) => React.ReactElement, label: string) => (
+        <button
+            onClick={() => setTool(t => t === id ? null : id)}
+            title={label}
+            className={`p-1.5 md:p-2 rounded-full transition-colors ${tool === id ? 'bg-white text-black' : 'hover:bg-white/10 text-white'}`}
+        >
+            <Icon className="w-4 h-4 md:w-5 md:h-5" />
+        </button>
+    );
+
+    return (
+        <div className="relative w-full h-full flex items-center justify-center bg-[#080808] overflow-hidden group shadow-inner z-10">
+             {/* Grid Background */}
+             <div className="absolute inset-0 opacity-15 pointer-events-none"
+                  style={{ backgroundImage: 'radial-gradient(#444 1px, transparent 1px)', backgroundSize: '32px 32px' }}>
+             </div>
+
+            <div
+                className="relative w-full h-full flex items-center justify-center transition-transform duration-200 ease-out p-4 md:p-16"
+                style={{ transform: `scale(${scale})` }}
+            >
+                {activeVersion.type === 'video' ? (
+                    <video
+                        ref={mediaRef as React.RefObject<HTMLVideoElement>}
+                        src={activeVersion.src}
+                        playsInline
+                        loop
+                        onPlay={() => setIsPlaying(true)}
+                        onPause={() => setIsPlaying(false)}
+                        onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+                        onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+                        onClick={togglePlayback}
+                        className="max-w-full max-h-full object-contain shadow-2xl ring-1 ring-white/10 rounded-sm cursor-pointer"
+                    />
+                ) : (
+                    <img ref={mediaRef as React.RefObject<HTMLImageElement>} src={activeVersion.src} alt="Content" className="max-w-full max-h-full object-contain shadow-2xl ring-1 ring-white/10 rounded-sm" />
+                )}
+                {/* Selection mask overlay; drawn opaque and shown translucent */}
+                <canvas
+                    ref={canvasRef}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    style={overlayBox}
+                    className={`absolute opacity-40 touch-none ${tool ? 'cursor-crosshair' : 'pointer-events-none'} ${showOriginal || isVideo ? 'invisible' : ''}`}
+                />
+            </div>
+
+            {/* Video transport */}
+            {isVideo && (
+                <div className="absolute bottom-20 md:bottom-28 left-1/2 -translate-x-1/2 w-[min(90%,36rem)] flex items-center gap-3 px-3 py-2 bg-[#1a1a1a]/90 border border-white/10 rounded-full shadow-2xl z-50 backdrop-blur-md">
+                    <button onClick={togglePlayback} disabled={showOriginal} className="p-1.5 hover:bg-white/10 rounded-full text-white transition-colors">
+                        {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+                    </button>
+                    <input
+                        type="range"
+                        min={0}
+                        max={duration || 0}
+                        step={0.01}
+                        value={currentTime}
+                        onChange={e => seek(Number(e.target.value))}
+                        className="flex-1 accent-white"
+                    />
+                    <span className="text-[10px] md:text-xs font-mono text-gray-400 tabular-nums shrink-0">{formatTime(currentTime)} / {formatTime(duration)}</span>
+                    <button
+                        onClick={() => { video()?.pause(); onExtractFrame(currentTime); }}
+                        className="px-3 py-1 rounded-full text-[10px] md:text-xs font-mono font-bold bg-white text-black hover:bg-gray-200 transition-colors shrink-0"
+                    >
+                        EDIT FRAME
+                    </button>
+                </div>
+            )}
+
+            {/* Controls */}
+            <div className="absolute bottom-4 md:bottom-8 left-1/2 -translate-x-1/2 flex items-center gap-3 md:gap-4 p-2 md:p-3 bg-[#1a1a1a]/90 border border-white/10 rounded-full shadow-2xl z-50 backdrop-blur-md">
+                <button onClick={() => onScaleChange(Math.max(1, scale - 0.5))} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><ZoomOutIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
+                <button onClick={() => onScaleChange(Math.min(3, scale + 0.5))} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><ZoomInIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
+                <button onClick={() => onScaleChange(1)} className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><RefreshCcwIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
+                <button
+                    onClick={() => setOpenPanel(panel => panel === 'export' ? null : 'export')}
+                    title="Export"
+                    className={`p-1.5 md:p-2 rounded-full transition-colors ${openPanel === 'export' ? 'bg-white text-black' : 'hover:bg-white/10 text-white'}`}
+                >
+                    <DownloadIcon className="w-4 h-4 md:w-5 md:h-5" />
+                </button>
+                {openPanel === 'export' && <ExportMenu version={currentVersion} onExportSession={onExportSession} onClose={() => setOpenPanel(null)} />}
+                {openPanel === 'adjust' && <AdjustPanel version={currentVersion} mask={mask} onApply={onAdjust} onRevise={onReviseAdjustment} />}
+                {!isVideo && (
+                    <>
+                        <button
+                            onClick={() => setOpenPanel(panel => panel === 'adjust' ? null : 'adjust')}
+                            title="Adjust"
+                            className={`p-1.5 md:p-2 rounded-full transition-colors ${openPanel === 'adjust' ? 'bg-white text-black' : 'hover:bg-white/10 text-white'}`}
+                        >
+                            <SlidersIcon className="w-4 h-4 md:w-5 md:h-5" />
+                        </button>
+                        <div className="w-px h-5 md:h-6 bg-white/20 mx-0.5"></div>
+                        {toolButton('brush', BrushIcon, 'Brush selection')}
+                        {toolButton('lasso', LassoIcon, 'Lasso selection')}
+                        {toolButton('rect', SquareIcon, 'Rectangle selection')}
+                        {tool === 'brush' && (
+                            <input type="range" min={5} max={150} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} className="w-16 md:w-24 accent-white" title="Brush size" />
+                        )}
+                        {mask && (
+                            <button onClick={clearMask} title="Clear selection" className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors"><XIcon className="w-4 h-4 md:w-5 md:h-5" /></button>
+                        )}
+                    </>
+                )}
+                <div className="w-px h-5 md:h-6 bg-white/20 mx-0.5"></div>
+                <button
+                    onClick={() => { onShowOriginalChange(false); setIsComparing(true); }}
+                    disabled={!canCompare}
+                    className="px-3 py-1 md:px-4 md:py-1.5 rounded-full text-xs md:text-sm font-medium transition-all hover:bg-white/20 text-white disabled:opacity-30 disabled:hover:bg-transparent"
+                >
+                    COMPARE
+                </button>
+                <button onClick={onFork} title="Fork into a new session from this version" className="p-1.5 md:p-2 hover:bg-white/10 rounded-full text-white transition-colors">
+                    <BranchIcon className="w-4 h-4 md:w-5 md:h-5" />
+                </button>
+            </div>
+
+            {showOriginal && (
+                <span className="absolute top-4 left-4 flex items-center gap-1.5 pl-3 pr-1 py-1 rounded-full bg-white text-black text-[10px] md:text-xs font-mono font-bold z-50">
+                    ORIGINAL
+                    <button onClick={() => onShowOriginalChange(false)} title="Back to the current version" className="p-0.5 rounded-full hover:bg-black/10"><XIcon className="w-3 h-3" /></button>
+                </span>
+            )}
+
+            {isComparing && canCompare && (
+                <CompareView versions={versions} initialA={compareBase.id} initialB={currentVersion.id} onClose={() => setIsComparing(false)} />
+            )}
+        </div>
+    );
+};
+
+export default MediaViewer;
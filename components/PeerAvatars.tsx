@@ -0,0 +1,34 @@
+import React from 'react';
+import { Peer, peerName } from '../services/collab';
+
+const ACTIVITY_LABELS: Record<NonNullable<Peer['activity']>, string> = { talking: 'talking to Forgy', generating: 'generating' };
+
+export const describePeer = (peer: Peer) =>
+    [peerName(peer), peer.away ? 'away' : null, peer.activity ? ACTIVITY_LABELS[peer.activity] : null].filter(Boolean).join(' · ');
+
+interface PeerAvatarsProps {
+    peers: Peer[];
+    // Beyond this many, the rest are summed up as "+n".
+    max?: number;
+}
+
+const PeerAvatars = ({ peers, max = 4 }: PeerAvatarsProps) => (
+    <span className="flex items-center -space-x-1.5">
+        {peers.slice(0, max).map(peer => (
+            <span
+                key={peer.id}
+                title={describePeer(peer)}
+                style={{ backgroundColor: peer.color }}
+                className={`relative w-6 h-6 rounded-full border-2 border-[#050505] flex items-center justify-center text-[10px] font-mono font-bold text-black ${peer.away ? 'opacity-40' : ''}`}
+            >
+                {peerName(peer)[0].toUpperCase()}
+                {peer.activity && <span className="absolute -bottom-0.5 -right-0.5 w-2 h-2 rounded-full bg-white animate-pulse" />}
+            </span>
+        ))}
+        {peers.length > max && (
+            <span className="w-6 h-6 rounded-full border-2 border-[#050505] bg-white/20 flex items-center justify-center text-[9px] font-mono text-white">+{peers.length - max}</span>
+        )}
+    </span>
+);
+
+export default PeerAvatars;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+import { downloadBlob } from '../services/exportService';
+import { Recipe, RecipeStep, deleteRecipe, describeStep, exportRecipe, fillPlaceholders, importRecipe, listRecipes, placeholdersOf, recipeStepsFromHistory, saveRecipe } from '../services/recipes';
+import { DownloadIcon, PlusIcon, XIcon } from './icons';
+
+const field = 'w-full bg-black border border-white/10 rounded-full px-3 py-1.5 text-xs text-white focus:outline-none focus:border-white/40';
+const label = 'block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500';
+
+interface RecipePanelProps {
+    // The active session; its history up to the version on screen can be saved as a new recipe.
+    session: Session | undefined;
+    // Starts the recipe on the version on screen; it runs as a queued job after the panel closes.
+    onApply: (recipe: Recipe, values: Record<string, string>) => void;
+    onClose: () => void;
+}
+
+const fileName = (recipe: Recipe) => `${recipe.name.replace(/[^\w-]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'recipe'}.forgy-recipe.json`;
+
+const RecipePanel = ({ session, onApply, onClose }: RecipePanelProps) => {
+    const current = session?.versions[session.currentIndex];
+    const [recipes, setRecipes] = useState(listRecipes);
+    const [values, setValues] = useState<Record<string, Record<string, string>>>({});
+    const [draft, setDraft] = useState<RecipeStep[]>(() => session && current ? recipeStepsFromHistory(session, current.id) : []);
+    const [draftName, setDraftName] = useState('');
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const canApply = current?.type === 'image';
+
+    const setValue = (recipeId: string, name: string, value: string) =>
+        setValues(v => ({ ...v, [recipeId]: { ...v[recipeId], [name]: value } }));
+
+    const handleApply = (recipe: Recipe) => {
+        onApply(recipe, values[recipe.id] ?? {});
+        onClose();
+    };
+
+    const handleDelete = (id: string) => {
+        deleteRecipe(id);
+        setRecipes(listRecipes());
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            importRecipe(await file.text());
+            setRecipes(listRecipes());
+            setImportError(null);
+        } catch (e) {
+            setImportError(e instanceof Error ? e.message : "Could not import the recipe");
+        }
+    };
+
+    const handleSaveDraft = () => {
+        if (!draftName.trim() || draft.length === 0) return;
+        saveRecipe(draftName, draft);
+        setRecipes(listRecipes());
+        setDraftName('');
+    };
+
+    const updateDraftPrompt = (index: number, prompt: string) =>
+        setDraft(steps => steps.map((step, i) => i === index && step.kind === 'edit' ? { ...step, prompt } : step));
+
+    const renderRecipe = (recipe: Recipe) => {
+        const placeholders = placeholdersOf(recipe.steps);
+        const isReady = canApply && !('missing' in fillPlaceholders(recipe.steps, values[recipe.id] ?? {}));
+        return (
+            <div key={recipe.id} className="p-3 rounded-xl border border-white/10 bg-black space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-bold text-white truncate">{recipe.name}</span>
+                    <div className="flex items-center gap-1 shrink-0">
+                        <button onClick={() => downloadBlob(new Blob([exportRecipe(recipe)], { type: 'application/json' }), fileName(recipe))} title="Export to share" className="p-1.5 rounded-full text-gray-500 hover:text-white hover:bg-white/10"><DownloadIcon className="w-3.5 h-3.5" /></button>
+                        <button onClick={() => handleDelete(recipe.id)} title="Delete" className="p-1.5 rounded-full text-gray-500 hover:text-red-400 hover:bg-white/10"><XIcon className="w-3.5 h-3.5" /></button>
+                    </div>
+                </div>
+                <ol className="space-y-0.5 text-[10px] text-gray-400 list-decimal list-inside">
+                    {recipe.steps.map((step, i) => <li key={i} className="truncate" title={describeStep(step)}>{describeStep(step)}</li>)}
+                </ol>
+                {placeholders.map(name => (
+                    <input key={name} value={values[recipe.id]?.[name] ?? ''} onChange={e => setValue(recipe.id, name, e.target.value)} placeholder={`{${name}}`} className={field} />
+                ))}
+                <button
+                    onClick={() => handleApply(recipe)}
+                    disabled={!isReady}
+                    title={canApply ? undefined : 'Open an image to apply recipes'}
+                    className="w-full py-1.5 rounded-full bg-white text-black text-xs font-bold hover:bg-gray-200 disabled:opacity-30 transition-colors"
+                >
+                    APPLY
+                </button>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-[#0f0f0f] border border-white/10 rounded-2xl shadow-2xl font-mono overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 md:p-5 border-b border-white/10">
+                    <h2 className="text-sm font-bold tracking-widest text-white">RECIPES</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+                </div>
+
+                <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-4 md:p-5 space-y-6">
+                    <section>
+                        <div className="flex items-center justify-between mb-1.5">
+                            <span className={label}>Saved</span>
+                            <label className="flex items-center gap-1 text-[10px] text-gray-400 hover:text-white cursor-pointer">
+                                <PlusIcon className="w-3 h-3" /> IMPORT
+                                <input type="file" accept=".json,application/json" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) handleImport(file); e.target.value = ''; }} />
+                            </label>
+                        </div>
+                        {importError && <p className="mb-2 text-[10px] text-red-400">{importError}</p>}
+                        {recipes.length === 0 && <p className="text-[10px] text-gray-600">No saved recipes yet. Save the edits below, or import one someone shared.</p>}
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {recipes.map(renderRecipe)}
+                        </div>
+                    </section>
+
+                    <section>
+                        <span className={label}>Save the edits that led here</span>
+                        {draft.length === 0 ? (
+                            <p className="text-[10px] text-gray-600">{current ? 'This version has no edits that can be replayed.' : 'Open an image to record its edits as a recipe.'}</p>
+                        ) : (
+                            <div className="space-y-1.5">
+                                {draft.map((step, i) => (
+                                    <div key={i} className="flex items-center gap-1.5">
+                                        <span className="w-5 shrink-0 text-[10px] text-gray-600 text-right">{i + 1}</span>
+                                        {step.kind === 'edit'
+                                            ? <input value={step.prompt} onChange={e => updateDraftPrompt(i, e.target.value)} className={field} />
+                                            : <span className="flex-1 px-3 py-1.5 text-xs text-gray-400">{describeStep(step)}</span>}
+                                        <button onClick={() => setDraft(steps => steps.filter((_, j) => j !== i))} title="Leave out" className="p-1 text-gray-600 hover:text-red-400"><XIcon className="w-3 h-3" /></button>
+                                    </div>
+                                ))}
+                                <p className="pl-6 text-[10px] text-gray-600">Write {'{name}'} in a prompt to ask for a value each time, e.g. "a {'{color}'} hat".</p>
+                                <div className="pl-6 flex gap-1.5">
+                                    <input value={draftName} onChange={e => setDraftName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSaveDraft()} placeholder="Recipe name" className={field} />
+                                    <button onClick={handleSaveDraft} disabled={!draftName.trim()} className="px-4 rounded-full border border-white/10 text-xs text-gray-300 hover:bg-white/10 disabled:opacity-30">SAVE</button>
+                                </div>
+                            </div>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RecipePanel;
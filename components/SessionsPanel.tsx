@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Session } from '../types';
+import { SESSION_SORTS, SessionListing, SessionSort, findSessions, sessionLabel } from '../services/sessions';
+import VersionThumb from './VersionThumb';
+import { SearchIcon, XIcon } from './icons';
+
+const SORT_KEY = 'forgy.sessionSort';
+
+const storedSort = (): SessionSort => {
+    const stored = localStorage.getItem(SORT_KEY);
+    return SESSION_SORTS.some(s => s.id === stored) ? stored as SessionSort : 'recent';
+};
+
+interface SessionsPanelProps {
+    sessions: Session[];
+    activeId: string | null;
+    onSelect: (id: string) => void;
+    // An empty title goes back to the automatic one.
+    onRename: (id: string, title: string | undefined) => void;
+    onDuplicate: (id: string) => void;
+    // Undoable from the toast App shows afterwards.
+    onDelete: (id: string) => void;
+    onClose: () => void;
+}
+
+const formatAge = (timestamp: number) => {
+    const minutes = Math.round((Date.now() - timestamp) / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`;
+    return new Date(timestamp).toLocaleDateString();
+};
+
+const SessionsPanel = ({ sessions, activeId, onSelect, onRename, onDuplicate, onDelete, onClose }: SessionsPanelProps) => {
+    const [query, setQuery] = useState('');
+    const [sort, setSort] = useState<SessionSort>(storedSort);
+    const [renaming, setRenaming] = useState<{ id: string, title: string } | null>(null);
+
+    const listings = findSessions(sessions, query, sort);
+
+    const changeSort = (next: SessionSort) => {
+        setSort(next);
+        localStorage.setItem(SORT_KEY, next);
+    };
+
+    const commitRename = () => {
+        if (!renaming) return;
+        onRename(renaming.id, renaming.title.trim() || undefined);
+        setRenaming(null);
+    };
+
+    const renderCard = ({ session, match }: SessionListing) => {
+        const latest = session.versions[session.versions.length - 1];
+        const label = sessionLabel(session);
+        const isRenaming = renaming?.id === session.id;
+        return (
+            <div key={session.id} className={`group rounded-xl border bg-black overflow-hidden ${session.id === activeId ? 'border-white/60' : 'border-white/10 hover:border-white/30'}`}>
+                <button onClick={() => { onSelect(session.id); onClose(); }} className="relative block w-full aspect-square bg-[#080808]">
+                    <VersionThumb version={latest} className="w-full h-full object-cover" />
+                    <span className="absolute top-1.5 left-1.5 px-1.5 py-0.5 rounded bg-black/70 text-[10px] text-gray-300">#{session.number}</span>
+                </button>
+                <div className="p-2 space-y-1">
+                    {isRenaming ? (
+                        <input
+                            autoFocus
+                            value={renaming.title}
+                            onChange={e => setRenaming({ id: session.id, title: e.target.value })}
+                            onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenaming(null); }}
+                            onBlur={commitRename}
+                            placeholder={label}
+                            className="w-full bg-black border border-white/20 rounded px-1.5 py-0.5 text-xs text-white focus:outline-none focus:border-white/50"
+                        />
+                    ) : (
+                        <p
+                            onDoubleClick={() => setRenaming({ id: session.id, title: session.title ?? '' })}
+                            title={`${label} · double-click to rename`}
+                            className={`text-xs truncate ${session.title ? 'text-white' : 'text-gray-300 italic'}`}
+                        >
+                            {label}
+                        </p>
+                    )}
+                    {match && <p className="text-[10px] text-amber-300/80 truncate" title={match}>“{match}”</p>}
+                    <div className="flex items-center justify-between gap-2 text-[10px] text-gray-500">
+                        <span className="truncate">{session.versions.length} VER · {formatAge(session.updatedAt)}</span>
+                        <span className="flex items-center gap-2 shrink-0 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                            <button onClick={() => setRenaming({ id: session.id, title: session.title ?? '' })} className="hover:text-white">RENAME</button>
+                            <button onClick={() => onDuplicate(session.id)} className="hover:text-white">COPY</button>
+                            <button onClick={() => onDelete(session.id)} title="Delete" className="hover:text-red-400"><XIcon className="w-3 h-3" /></button>
+                        </span>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="w-full max-w-5xl h-[90vh] flex flex-col bg-[#0f0f0f] border border-white/10 rounded-2xl shadow-2xl font-mono overflow-hidden" onClick={e => e.stopPropagation()}>
+                <div className="flex flex-wrap items-center gap-3 p-4 md:p-5 border-b border-white/10">
+                    <h2 className="text-sm font-bold tracking-widest text-white mr-auto">SESSIONS <span className="text-gray-500 font-normal">{sessions.length}</span></h2>
+                    <label className="flex items-center gap-2 px-3 py-1.5 bg-black border border-white/10 rounded-full focus-within:border-white/40 transition-colors">
+                        <SearchIcon className="w-3.5 h-3.5 text-gray-500" />
+                        <input autoFocus value={query} onChange={e => setQuery(e.target.value)} placeholder="Search titles and prompts" className="w-40 md:w-56 bg-transparent text-xs text-white placeholder-gray-600 focus:outline-none" />
+                    </label>
+                    <select value={sort} onChange={e => changeSort(e.target.value as SessionSort)} className="bg-black border border-white/10 rounded-full px-3 py-1.5 text-xs text-gray-300 focus:outline-none">
+                        {SESSION_SORTS.map(s => <option key={s.id} value={s.id} className="bg-black">{s.label}</option>)}
+                    </select>
+                    <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+                </div>
+
+                <div className="flex-1 min-h-0 overflow-y-auto custom-scrollbar p-4 md:p-5">
+                    {listings.length === 0 && (
+                        <p className="text-xs text-gray-600 text-center mt-10">{sessions.length === 0 ? 'No sessions yet.' : `Nothing matches "${query}".`}</p>
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3">
+                        {listings.map(renderCard)}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SessionsPanel;
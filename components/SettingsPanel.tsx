@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { AssistantSettings, DEFAULT_SETTINGS, EDIT_MODELS, LANGUAGES, LIVE_MODELS, PROMPT_PRESETS, UsageBudgets, VOICES, Verbosity, getSettings, saveSettings } from '../services/settings';
+import { BUDGET_LABELS, UsageTotals, getSessionUsage, getUsage, resetUsage, totalTokens } from '../services/usage';
+import { XIcon } from './icons';
+
+const VERBOSITY: Verbosity[] = ['terse', 'balanced', 'chatty'];
+
+const field = 'w-full bg-black border border-white/10 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-white/40';
+const label = 'block mb-1.5 text-[10px] uppercase tracking-widest text-gray-500';
+
+const USAGE_ROWS: { label: string, value: (totals: UsageTotals) => string }[] = [
+    { label: 'Images', value: t => String(t.images) },
+    { label: 'Videos', value: t => String(t.videos) },
+    { label: 'Live minutes', value: t => (t.liveSeconds / 60).toFixed(1) },
+    { label: 'Tokens', value: t => totalTokens(t).toLocaleString() },
+];
+
+interface SettingsPanelProps {
+    // Shown next to the monthly totals when a session is open.
+    sessionId: string | null;
+    onClose: () => void;
+}
+
+const SettingsPanel = ({ sessionId, onClose }: SettingsPanelProps) => {
+    const [draft, setDraft] = useState<AssistantSettings>(getSettings);
+    const [usage, setUsage] = useState(getUsage);
+    const set = <K extends keyof AssistantSettings>(key: K, value: AssistantSettings[K]) => setDraft(d => ({ ...d, [key]: value }));
+    const setBudget = (key: keyof UsageBudgets, value: string) => set('budgets', { ...draft.budgets, [key]: Math.max(0, Math.floor(Number(value)) || 0) });
+    const sessionUsage = sessionId ? getSessionUsage(sessionId) : null;
+
+    const save = () => {
+        saveSettings({ ...draft, editModel: draft.editModel.trim() || DEFAULT_SETTINGS.editModel, liveModel: draft.liveModel.trim() || DEFAULT_SETTINGS.liveModel });
+        onClose();
+    };
+
+    const languageSelect = (key: 'replyLanguage' | 'transcriptionLanguage') => (
+        <select value={draft[key]} onChange={e => set(key, e.target.value)} className={field}>
+            {LANGUAGES.map(l => <option key={l.code} value={l.code} className="bg-black">{l.label}</option>)}
+        </select>
+    );
+
+    return (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto custom-scrollbar bg-[#0f0f0f] border border-white/10 rounded-2xl shadow-2xl p-5 md:p-6 space-y-5 font-mono" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-sm font-bold tracking-widest text-white">ASSISTANT SETTINGS</h2>
+                    <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10 text-gray-400 hover:text-white transition-colors"><XIcon className="w-4 h-4" /></button>
+                </div>
+
+                <section>
+                    <span className={label}>Persona</span>
+                    <div className="flex flex-wrap gap-1.5">
+                        {PROMPT_PRESETS.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => set('promptPresetId', p.id)}
+                                className={`px-3 py-1.5 rounded-full border text-xs transition-colors ${draft.promptPresetId === p.id ? 'bg-white text-black border-white font-bold' : 'border-white/10 text-gray-300 hover:bg-white/10'}`}
+                            >
+                                {p.label}
+                            </button>
+                        ))}
+                    </div>
+                    {draft.promptPresetId === 'custom' && (
+                        <textarea
+                            value={draft.customPrompt}
+                            onChange={e => set('customPrompt', e.target.value)}
+                            rows={4}
+                            placeholder="Describe who the assistant is and how it should behave. Tool instructions are added automatically."
+                            className={`${field} mt-2 resize-y`}
+                        />
+                    )}
+                </section>
+
+                <section>
+                    <span className={label}>Talkativeness</span>
+                    <div className="flex gap-1 p-1 bg-black rounded-full">
+                        {VERBOSITY.map(v => (
+                            <button key={v} onClick={() => set('verbosity', v)} className={`flex-1 py-1.5 rounded-full text-xs uppercase transition-colors ${draft.verbosity === v ? 'bg-white text-black font-bold' : 'text-gray-300 hover:bg-white/10'}`}>{v}</button>
+                        ))}
+                    </div>
+                </section>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label>
+                        <span className={label}>Voice</span>
+                        <select value={draft.voice} onChange={e => set('voice', e.target.value)} className={field}>
+                            {VOICES.map(v => <option key={v} value={v} className="bg-black">{v}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        <span className={label}>Reply language</span>
+                        {languageSelect('replyLanguage')}
+                    </label>
+                    <label>
+                        <span className={label}>I speak</span>
+                        {languageSelect('transcriptionLanguage')}
+                    </label>
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    <label>
+                        <span className={label}>Edit model</span>
+                        <input list="forgy-edit-models" value={draft.editModel} onChange={e => set('editModel', e.target.value)} className={field} />
+                        <datalist id="forgy-edit-models">{EDIT_MODELS.map(m => <option key={m} value={m} />)}</datalist>
+                    </label>
+                    <label>
+                        <span className={label}>Live model</span>
+                        <input list="forgy-live-models" value={draft.liveModel} onChange={e => set('liveModel', e.target.value)} className={field} />
+                        <datalist id="forgy-live-models">{LIVE_MODELS.map(m => <option key={m} value={m} />)}</datalist>
+                    </label>
+                </div>
+
+                <section>
+                    <div className="flex items-center justify-between mb-1.5">
+                        <span className={label}>Usage</span>
+                        <button onClick={() => { resetUsage(); setUsage(getUsage()); }} className="text-[10px] text-gray-500 hover:text-white underline underline-offset-2">Reset this month</button>
+                    </div>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-gray-600 text-right">
+                                <th></th>
+                                <th className="font-normal pb-1">THIS MONTH</th>
+                                {sessionUsage && <th className="font-normal pb-1">THIS SESSION</th>}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {USAGE_ROWS.map(row => (
+                                <tr key={row.label} className="border-t border-white/5">
+                                    <td className="py-1 text-gray-400">{row.label}</td>
+                                    <td className="py-1 text-right text-white">{row.value(usage)}</td>
+                                    {sessionUsage && <td className="py-1 text-right text-gray-300">{row.value(sessionUsage)}</td>}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+
+                <section>
+                    <span className={label}>Monthly budgets</span>
+                    <div className="grid grid-cols-3 gap-2">
+                        {(Object.keys(BUDGET_LABELS) as (keyof UsageBudgets)[]).map(key => (
+                            <label key={key}>
+                                <span className="block mb-1 text-[10px] text-gray-500 truncate" title={BUDGET_LABELS[key]}>{BUDGET_LABELS[key]}</span>
+                                <input type="number" min={0} value={draft.budgets[key] || ''} onChange={e => setBudget(key, e.target.value)} placeholder="No limit" className={field} />
+                            </label>
+                        ))}
+                    </div>
+                    <p className="mt-1.5 text-[10px] text-gray-600">You are warned at 80%. Once a budget is used up, new generations or voice sessions are refused until next month.</p>
+                </section>
+
+                <p className="text-[10px] text-gray-600">Voice, persona and language changes apply from the next voice session. The edit model is used for the next edit.</p>
+
+                <div className="flex items-center justify-between gap-3">
+                    <button onClick={() => setDraft(DEFAULT_SETTINGS)} className="text-xs text-gray-500 hover:text-white underline underline-offset-4 transition-colors">Reset to defaults</button>
+                    <button onClick={save} className="px-5 py-2 rounded-full bg-white text-black text-xs font-bold hover:bg-gray-200 transition-colors">SAVE</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,154 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Session, TranscriptEntry } from '../types';
+import { downloadBlob } from '../services/exportService';
+import { sessionLabel } from '../services/sessions';
+import { searchTranscripts, transcriptToJson, transcriptToMarkdown, versionNumber } from '../services/transcript';
+import { MicIcon, SearchIcon, XIcon } from './icons';
+
+interface TranscriptPanelProps {
+    sessions: Session[];
+    session: Session;
+    interimTranscript: string;
+    // Shows a session and, when given, one of its versions.
+    onJump: (sessionId: string, versionId?: string) => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const renderEntry = (session: Session, entry: TranscriptEntry, isCurrent: boolean, onJump: TranscriptPanelProps['onJump']) => {
+    const isUser = entry.speaker === 'user';
+    const version = versionNumber(session, entry.versionId);
+    return (
+        <div key={entry.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+            <div
+                onClick={version ? () => onJump(session.id, entry.versionId) : undefined}
+                title={version ? `Show VERSION ${version}` : undefined}
+                className={`max-w-[90%] md:max-w-[85%] p-2.5 md:p-3.5 rounded-xl text-xs md:text-sm leading-relaxed shadow-sm border transition-colors
+                    ${isUser ? 'bg-[#222] text-gray-100 rounded-tr-none' : 'text-gray-300 bg-[#0f0f0f] rounded-tl-none'}
+                    ${isCurrent ? 'border-white/40' : 'border-white/5'}
+                    ${version ? 'cursor-pointer hover:border-white/30' : ''}`}
+            >
+                <div className="flex items-center gap-2 mb-1 text-[9px] md:text-[10px] font-mono">
+                    {!isUser && <span className="font-bold text-green-500 uppercase tracking-wider">FORGY AI</span>}
+                    <span className="text-gray-600">{formatTime(entry.timestamp)}</span>
+                    {entry.source === 'typed' && <span className="text-gray-600">TYPED</span>}
+                    {version && <span className="ml-auto text-gray-400">→ VERSION {version}</span>}
+                </div>
+                {entry.text && (
+                    <p className="whitespace-pre-wrap break-words">
+                        {entry.text}
+                        {entry.interrupted && <>… <span className="text-gray-600 italic">(interrupted)</span></>}
+                    </p>
+                )}
+                {entry.toolCalls && (
+                    <div className="mt-1.5 flex flex-wrap gap-1">
+                        {entry.toolCalls.map((call, i) => (
+                            <span key={i} title={call.error ?? JSON.stringify(call.args)} className={`px-1.5 py-0.5 rounded border text-[9px] md:text-[10px] font-mono ${call.error ? 'border-red-500/30 text-red-400' : 'border-white/10 text-gray-500'}`}>
+                                {call.name}{call.error ? ' ✕' : ''}
+                            </span>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TranscriptPanel = ({ sessions, session, interimTranscript, onJump }: TranscriptPanelProps) => {
+    const [isSearching, setIsSearching] = useState(false);
+    const [query, setQuery] = useState('');
+    const bottomRef = useRef<HTMLDivElement>(null);
+    const currentVersionId = session.versions[session.currentIndex]?.id;
+    const matches = useMemo(() => isSearching ? searchTranscripts(sessions, query) : [], [isSearching, sessions, query]);
+
+    useEffect(() => {
+        if (!isSearching) bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [session.transcript, interimTranscript, isSearching]);
+
+    const exportAs = (format: 'md' | 'json') => {
+        const text = format === 'md' ? transcriptToMarkdown(session) : transcriptToJson(session);
+        const type = format === 'md' ? 'text/markdown' : 'application/json';
+        downloadBlob(new Blob([text], { type }), `forgy-transcript-${session.id}.${format}`);
+    };
+
+    const closeSearch = () => {
+        setIsSearching(false);
+        setQuery('');
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-[#0A0A0A]">
+            <div className="p-3 md:p-4 border-b border-white/10 flex items-center justify-between gap-2 bg-[#050505] shrink-0">
+                {isSearching ? (
+                    <>
+                        <SearchIcon className="w-3.5 h-3.5 text-gray-500 shrink-0" />
+                        <input
+                            autoFocus
+                            value={query}
+                            onChange={e => setQuery(e.target.value)}
+                            onKeyDown={e => e.key === 'Escape' && closeSearch()}
+                            placeholder="Search all sessions"
+                            className="flex-1 min-w-0 bg-transparent text-xs font-mono text-white placeholder-gray-600 focus:outline-none"
+                        />
+                        <button onClick={closeSearch} className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10"><XIcon className="w-3.5 h-3.5" /></button>
+                    </>
+                ) : (
+                    <>
+                        <h3 className="text-[10px] md:text-xs font-mono uppercase tracking-widest text-gray-400 font-semibold">Live Transcript</h3>
+                        <div className="flex items-center gap-2">
+                            {session.transcript.length > 0 && (
+                                <>
+                                    <button onClick={() => exportAs('md')} title="Download as Markdown" className="text-[9px] md:text-[10px] font-mono text-gray-600 hover:text-white">MD</button>
+                                    <button onClick={() => exportAs('json')} title="Download as JSON" className="text-[9px] md:text-[10px] font-mono text-gray-600 hover:text-white">JSON</button>
+                                </>
+                            )}
+                            <button onClick={() => setIsSearching(true)} title="Search transcripts" className="p-1 rounded-full text-gray-500 hover:text-white hover:bg-white/10"><SearchIcon className="w-3.5 h-3.5" /></button>
+                            <span className="text-[9px] md:text-[10px] text-gray-600 font-mono">REC</span>
+                            <div className="w-1.5 h-1.5 md:w-2 md:h-2 bg-green-500 rounded-full animate-pulse"></div>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {isSearching ? (
+                <div className="flex-grow overflow-y-auto custom-scrollbar p-2 bg-[#0A0A0A]">
+                    {query.trim() && matches.length === 0 && <p className="p-4 text-center text-xs font-mono text-gray-600">No matches</p>}
+                    {matches.map(({ session: s, entry }) => {
+                        const version = versionNumber(s, entry.versionId);
+                        return (
+                            <button key={entry.id} onClick={() => onJump(s.id, entry.versionId)} className="w-full text-left p-2.5 rounded-lg hover:bg-white/5 transition-colors">
+                                <div className="flex items-center gap-2 mb-0.5 text-[9px] md:text-[10px] font-mono text-gray-600">
+                                    <span className="text-gray-400 truncate max-w-[50%]">{sessionLabel(s)}</span>
+                                    <span>{entry.speaker === 'user' ? 'YOU' : 'FORGY'}</span>
+                                    <span>{new Date(entry.timestamp).toLocaleDateString()}</span>
+                                    {version && <span className="ml-auto">VERSION {version}</span>}
+                                </div>
+                                <p className="text-xs text-gray-300 line-clamp-2">{entry.text || entry.toolCalls?.map(call => call.name).join(', ')}</p>
+                            </button>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="flex-grow overflow-y-auto custom-scrollbar p-4 space-y-4 md:space-y-6 bg-[#0A0A0A]">
+                    {session.transcript.length === 0 && !interimTranscript && (
+                        <div className="h-full flex flex-col items-center justify-center text-gray-800 space-y-3 opacity-40">
+                            <MicIcon className="w-8 h-8 md:w-10 md:h-10" />
+                            <p className="text-xs md:text-sm font-mono">Speak or type a command...</p>
+                        </div>
+                    )}
+                    {session.transcript.map(entry => renderEntry(session, entry, !!entry.versionId && entry.versionId === currentVersionId, onJump))}
+                    {interimTranscript && (
+                        <div className="flex justify-end">
+                            <div className="max-w-[85%] p-2.5 md:p-3 bg-[#111] text-gray-400 border border-dashed border-white/10 rounded-xl text-xs md:text-sm italic animate-pulse">
+                                {interimTranscript}...
+                            </div>
+                        </div>
+                    )}
+                    <div ref={bottomRef} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TranscriptPanel;
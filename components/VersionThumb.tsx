@@ -0,0 +1,16 @@
+import React from 'react';
+import { MediaVersion } from '../types';
+import { FilmIcon } from './icons';
+
+// Still preview of a version; clips show their first frame with a film badge (`#t` nudges browsers into
+// painting it). The parent must be `relative`.
+const VersionThumb = ({ version, className }: { version: MediaVersion, className?: string }) => version.type === 'video' ? (
+    <>
+        <video src={`${version.src}#t=0.1`} muted playsInline preload="metadata" className={className} />
+        <FilmIcon className="absolute bottom-0.5 left-0.5 w-3 h-3 text-white drop-shadow" />
+    </>
+) : (
+    <img src={version.src} className={className} />
+);
+
+export default VersionThumb;
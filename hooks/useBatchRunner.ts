@@ -0,0 +1,72 @@
+import { useCallback, useRef, useState } from 'react';
+import { BatchItem, runPool, runSteps } from '../services/batchService';
+import { RecipeStep } from '../services/recipes';
+import { ingestMedia } from '../services/ingest';
+import { getActiveProvider } from '../services/providers/registry';
+import { describeError } from '../services/retry';
+import { meterProvider } from '../services/usage';
+
+// Batch state lives above the panel so a run keeps going while the panel is closed.
+export const useBatchRunner = () => {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [isRunning, setIsRunning] = useState(false);
+    const itemsRef = useRef(items);
+    itemsRef.current = items;
+    const stopRef = useRef(false);
+
+    const patchItem = (id: string, patch: Partial<BatchItem>) => {
+        setItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+    };
+
+    // Images are normalised like any other import. Files that can't be read are left out; the returned
+    // messages say why.
+    const addFiles = useCallback(async (files: File[]): Promise<string[]> => {
+        const images = files.filter(file => file.type.startsWith('image/'));
+        const outcomes = await Promise.allSettled(images.map(async (file): Promise<BatchItem> => {
+            const { src, original } = await ingestMedia(file, file.name);
+            return { id: crypto.randomUUID(), name: file.name, source: src, ...(original ? { original } : {}), status: 'queued', steps: [], results: [] };
+        }));
+        const added = outcomes.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+        setItems(prev => [...prev, ...added]);
+        return outcomes.flatMap(outcome => outcome.status === 'rejected' ? [describeError(outcome.reason)] : []);
+    }, []);
+
+    const removeItem = useCallback((id: string) => {
+        setItems(prev => prev.filter(item => item.id !== id || item.status === 'running'));
+    }, []);
+
+    const clear = useCallback(() => {
+        setItems(prev => prev.filter(item => item.status === 'running'));
+    }, []);
+
+    // Runs queued items with `steps` and resumes failed ones from the step that failed. `ids` limits the run,
+    // e.g. to retry a single item.
+    const run = useCallback(async (steps: RecipeStep[], concurrency: number, ids?: string[]) => {
+        if (isRunning) return;
+        const pending = itemsRef.current
+            .filter(item => (!ids || ids.includes(item.id)) && (item.status === 'failed' || (item.status === 'queued' && steps.length > 0)))
+            .map(item => item.status === 'queued' ? { ...item, steps } : item);
+        if (pending.length === 0) return;
+
+        const provider = meterProvider(getActiveProvider(), null);
+        stopRef.current = false;
+        setIsRunning(true);
+        await runPool(pending, concurrency, async (item: BatchItem) => {
+            patchItem(item.id, { status: 'running', steps: item.steps, error: undefined });
+            try {
+                const results = await runSteps(provider, item, partial => patchItem(item.id, { results: partial }));
+                patchItem(item.id, { status: 'done', results });
+            } catch (e) {
+                patchItem(item.id, { status: 'failed', error: describeError(e) });
+            }
+        }, () => stopRef.current);
+        setIsRunning(false);
+    }, [isRunning]);
+
+    // Items already running finish their current chain; nothing new starts.
+    const stop = useCallback(() => {
+        stopRef.current = true;
+    }, []);
+
+    return { items, isRunning, addFiles, removeItem, clear, run, stop };
+};
@@ -0,0 +1,167 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Session } from '../types';
+import { nextSessionNumber } from '../services/sessions';
+import {
+    CollabEnvelope, CollabStatus, Peer, RelayConnection, Replica, SessionOp, applyOps, batchOps, connectToRelay,
+    createReplica, getCollabSettings, inventoryOf, localOps, missingOps, peerColor, saveCollabSettings,
+} from '../services/collab';
+
+interface CollaborationHookProps {
+    sessions: Session[];
+    setSessions: React.Dispatch<React.SetStateAction<Session[]>>;
+    activeSessionId: string | null;
+    activity?: Peer['activity'];
+    // The shared session has arrived (or, when sharing, was already here) and can be shown.
+    onSessionReady: (id: string) => void;
+}
+
+// Shares one session with everyone in its relay room: local changes to it are sent as they happen and
+// theirs are merged into `sessions`, where autosave and the rest of the app pick them up like any other edit.
+export const useCollaboration = ({ sessions, setSessions, activeSessionId, activity, onSessionReady }: CollaborationHookProps) => {
+    const [roomId, setRoomId] = useState<string | null>(null);
+    const [status, setStatus] = useState<CollabStatus>('offline');
+    const [peers, setPeers] = useState<Peer[]>([]);
+    const [name, setName] = useState(() => getCollabSettings().name);
+    const [error, setError] = useState<string | null>(null);
+
+    // One identity per tab, so two tabs on one machine are two peers.
+    const selfIdRef = useRef<string>(crypto.randomUUID());
+    const connectionRef = useRef<RelayConnection | null>(null);
+    const replicaRef = useRef<Replica | null>(null);
+    const roomIdRef = useRef<string | null>(null);
+    // False from joining until the first copy of the session has come in.
+    const isReadyRef = useRef(false);
+    const sessionsRef = useRef(sessions);
+    const selfRef = useRef<Peer | null>(null);
+    const onSessionReadyRef = useRef(onSessionReady);
+
+    const self: Peer = {
+        id: selfIdRef.current,
+        name,
+        color: peerColor(selfIdRef.current),
+        away: roomId !== null && activeSessionId !== roomId,
+        activity,
+    };
+
+    useEffect(() => {
+        sessionsRef.current = sessions;
+        selfRef.current = self;
+        onSessionReadyRef.current = onSessionReady;
+    });
+
+    const upsertPeer = (peer: Peer) => setPeers(prev => prev.some(p => p.id === peer.id) ? prev.map(p => p.id === peer.id ? peer : p) : [...prev, peer]);
+
+    const sharedSession = () => sessionsRef.current.find(s => s.id === roomIdRef.current);
+
+    const sendOps = (session: Session, ops: SessionOp[], to?: string) => {
+        for (const batch of batchOps(ops)) connectionRef.current?.send({ type: 'ops', ops: batch, createdAt: session.createdAt }, to);
+    };
+
+    // Introduces this peer after every (re)connect, with the ids it holds. Each peer already there answers with
+    // what this one is missing and its own ids, so anything changed here while disconnected can go back.
+    const greet = () => {
+        if (!selfRef.current) return;
+        connectionRef.current?.send({ type: 'hello', peer: selfRef.current, have: inventoryOf(sharedSession()) });
+    };
+
+    const handleMessage = (message: CollabEnvelope) => {
+        const connection = connectionRef.current;
+        const replica = replicaRef.current;
+        const room = roomIdRef.current;
+        if (!connection || !replica || !room || message.from === selfIdRef.current) return;
+
+        if (message.type === 'hello' || message.type === 'welcome') {
+            upsertPeer(message.peer);
+            const session = sharedSession();
+            if (message.type === 'hello' && selfRef.current) connection.send({ type: 'welcome', peer: selfRef.current, have: inventoryOf(session) }, message.from);
+            if (session) sendOps(session, missingOps(replica, session, message.have), message.from);
+        } else if (message.type === 'presence') {
+            upsertPeer(message.peer);
+        } else if (message.type === 'bye') {
+            setPeers(prev => prev.filter(p => p.id !== message.from));
+        } else if (message.type === 'ops') {
+            setSessions(prev => {
+                const existing = prev.find(s => s.id === room);
+                const next = applyOps(replica, existing, message.ops, { id: room, createdAt: message.createdAt, number: nextSessionNumber(prev) });
+                if (!next || next === existing) return prev;
+                return existing ? prev.map(s => s === existing ? next : s) : [...prev, next];
+            });
+        }
+    };
+
+    const leave = useCallback(() => {
+        connectionRef.current?.close();
+        connectionRef.current = null;
+        replicaRef.current = null;
+        roomIdRef.current = null;
+        setRoomId(null);
+        setPeers([]);
+        setError(null);
+    }, []);
+
+    const connect = (room: string, relayUrl: string, replica: Replica) => {
+        connectionRef.current?.close();
+        saveCollabSettings({ ...getCollabSettings(), relayUrl });
+        replicaRef.current = replica;
+        roomIdRef.current = room;
+        setRoomId(room);
+        setPeers([]);
+        setError(null);
+        connectionRef.current = connectToRelay(relayUrl, room, selfIdRef.current, {
+            onStatus: next => {
+                setStatus(next);
+                if (next === 'connected') { setError(null); greet(); }
+                // Whoever is still there says so again when we're back.
+                if (next === 'reconnecting') setPeers([]);
+            },
+            onMessage: handleMessage,
+            onError: setError,
+        });
+    };
+
+    const share = (sessionId: string, relayUrl: string) => {
+        const session = sessionsRef.current.find(s => s.id === sessionId);
+        if (!session) return;
+        isReadyRef.current = true;
+        connect(sessionId, relayUrl, createReplica(selfIdRef.current, session));
+    };
+
+    // Rejoining a session this browser already has merges into the local copy instead of duplicating it.
+    const join = (room: string, relayUrl: string) => {
+        isReadyRef.current = false;
+        connect(room, relayUrl, createReplica(selfIdRef.current, sessionsRef.current.find(s => s.id === room)));
+    };
+
+    const rename = (next: string) => {
+        setName(next);
+        saveCollabSettings({ ...getCollabSettings(), name: next });
+    };
+
+    // Sends whatever changed locally. Merged remote operations are already in the replica, so they aren't echoed.
+    useEffect(() => {
+        const replica = replicaRef.current;
+        if (!roomId || !replica) return;
+        const session = sessions.find(s => s.id === roomId);
+        if (!session) {
+            // Deleted here while shared: stop sharing rather than wait for it to come back.
+            if (isReadyRef.current) leave();
+            return;
+        }
+        if (!isReadyRef.current) {
+            isReadyRef.current = true;
+            onSessionReadyRef.current(roomId);
+        }
+        const ops = localOps(replica, session, selfIdRef.current);
+        if (ops.length > 0) sendOps(session, ops);
+    }, [sessions, roomId, leave]);
+
+    useEffect(() => {
+        if (status === 'connected') connectionRef.current?.send({ type: 'presence', peer: self });
+    }, [status, self.name, self.away, self.activity]);
+
+    useEffect(() => () => connectionRef.current?.close(), []);
+
+    return { roomId, status, peers, self, error, share, join, leave, rename };
+};
+
+export type Collaboration = ReturnType<typeof useCollaboration>;
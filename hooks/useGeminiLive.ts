@@ -1,162 +1,338 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration, Tool, Blob } from '@google/genai';
-import { createBlob, decode, decodeAudioData } from '../services/geminiService';
+import { GoogleGenAI, LiveServerMessage, Modality, FunctionDeclaration } from '@google/genai';
+import { createPcmBlob, decode, getAiClient, pcm16ToFloat32 } from '../services/geminiService';
+import { CAPTURE_PROCESSOR, PLAYBACK_PROCESSOR, loadAudioWorklets } from '../services/audioWorklets';
+import { encodeImageForModel } from '../services/mediaUtils';
+import { AssistantSettings, buildSystemInstruction, getSettings } from '../services/settings';
+import { UsageTotals, budgetBlock } from '../services/usage';
 
-const getAiClient = (): GoogleGenAI => {
-    const API_KEY = process.env.API_KEY;
-    if (!API_KEY) throw new Error("API_KEY environment variable is not set");
-    return new GoogleGenAI({ apiKey: API_KEY });
-};
+// The Live API takes 16 kHz PCM in and speaks 24 kHz PCM out; the worklets resample to and from the device rate.
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
 
-const editImageFunctionDeclaration: FunctionDeclaration = {
-  name: 'editImage',
-  description: 'Edits the image. Use this for requests like "add a hat", "change color", "remove object".',
-  parameters: {
-    type: Type.OBJECT,
-    properties: { prompt: { type: Type.STRING } },
-    required: ['prompt'],
-  },
-};
+// Reconnect after 1s, 2s, 4s... capped, giving up after MAX_RECONNECT_ATTEMPTS failures in a row.
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_BACKOFF_MS = 15000;
+
+// Connected time is reported in slices so a long conversation shows up in the usage counters as it goes.
+const LIVE_USAGE_INTERVAL_MS = 30000;
+
+export type LiveStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
 
-const tools: Tool[] = [{ functionDeclarations: [editImageFunctionDeclaration] }];
+type LiveSession = Awaited<ReturnType<InstanceType<typeof GoogleGenAI>['live']['connect']>>;
 
 interface GeminiLiveHookProps {
-    onFunctionCall: (name: string, args: any) => Promise<any>;
-    onTurnComplete: (user: string, ai: string) => void;
+    // Tools offered to the model; calls are routed to `onFunctionCall` and its result is sent back as the response.
+    toolDeclarations: FunctionDeclaration[];
+    // Resolves to the tool's outcome. An `image` data URL in it is sent as a picture after the response.
+    onFunctionCall: (name: string, args: unknown) => Promise<Record<string, unknown>>;
+    // `interrupted` is set when the user talked over Forgy and the rest of its reply was dropped.
+    onTurnComplete: (user: string, ai: string, interrupted?: boolean) => void;
     onInterimTranscript: (transcript: string) => void;
     onAiSpeakingStatusChange: (isSpeaking: boolean) => void;
+    // Connected time and the token counts the server reports for each turn.
+    onUsage: (usage: Partial<UsageTotals>) => void;
 }
 
-export const useGeminiLive = ({ onFunctionCall, onTurnComplete, onInterimTranscript, onAiSpeakingStatusChange }: GeminiLiveHookProps) => {
-  const [isLive, setIsLive] = useState(false);
+const describeMediaError = (e: unknown) => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return "Microphone access was blocked. Allow it in the browser to talk to Forgy.";
+  if (name === 'NotFoundError') return "No microphone was found.";
+  return e instanceof Error && e.message ? `Could not start audio: ${e.message}` : "Could not start audio.";
+};
+
+export const useGeminiLive = (props: GeminiLiveHookProps) => {
+  const [status, setStatus] = useState<LiveStatus>('idle');
   const [error, setError] = useState<string | null>(null);
-  
-  const sessionPromiseRef = useRef<ReturnType<InstanceType<typeof GoogleGenAI>['live']['connect']> | null>(null);
+
+  // Reconnects happen long after the hook was first called, so callbacks are read from a ref, never captured.
+  const propsRef = useRef(props);
+  useEffect(() => { propsRef.current = props; });
+
+  const statusRef = useRef<LiveStatus>('idle');
+  const updateStatus = (next: LiveStatus) => { statusRef.current = next; setStatus(next); };
+
+  const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
   const audioContextRefs = useRef<{ input: AudioContext | null, output: AudioContext | null }>({ input: null, output: null });
   const streamRef = useRef<MediaStream | null>(null);
-  const audioNodesRef = useRef<{ source: MediaStreamAudioSourceNode | null, processor: ScriptProcessorNode | null }>({ source: null, processor: null });
-  const nextStartTimeRef = useRef(0);
-  const audioSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const audioNodesRef = useRef<{ source: MediaStreamAudioSourceNode | null, capture: AudioWorkletNode | null, playback: AudioWorkletNode | null }>({ source: null, capture: null, playback: null });
   const currentInputTranscriptionRef = useRef('');
   const currentOutputTranscriptionRef = useRef('');
+  // What the model should be looking at, and what this connection has actually been sent.
+  const desiredImageRef = useRef<string | null>(null);
+  const lastImageRef = useRef<string | null>(null);
+  // Lets a dropped connection pick up the same conversation instead of starting over.
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Fixed for the whole conversation: a resumed session must reconnect with the model and voice it started with.
+  const settingsRef = useRef<AssistantSettings>(getSettings());
+  // When the connected time since the last usage report started; null while not connected.
+  const liveSinceRef = useRef<number | null>(null);
 
-  const stopSession = useCallback(async () => {
-    if (sessionPromiseRef.current) {
-        try { const session = await sessionPromiseRef.current; session.close(); } catch (e) {}
-        sessionPromiseRef.current = null;
+  const reportLiveTime = (stillLive: boolean) => {
+    if (liveSinceRef.current === null) return;
+    const now = Date.now();
+    propsRef.current.onUsage({ liveSeconds: (now - liveSinceRef.current) / 1000 });
+    liveSinceRef.current = stillLive ? now : null;
+  };
+
+  useEffect(() => {
+    if (status !== 'live') return;
+    const interval = setInterval(() => reportLiveTime(true), LIVE_USAGE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // Shows the model the picture the user is looking at; safe to call as often as the view changes.
+  const updateImageContext = useCallback(async (src: string) => {
+    desiredImageRef.current = src;
+    if (statusRef.current !== 'live' || !sessionPromiseRef.current || src === lastImageRef.current) return;
+    lastImageRef.current = src;
+    const sessionPromise = sessionPromiseRef.current;
+    try {
+        const media = await encodeImageForModel(src);
+        // A newer image may have been requested while this one was encoding.
+        if (lastImageRef.current !== src || sessionPromiseRef.current !== sessionPromise) return;
+        (await sessionPromise).sendRealtimeInput({ media });
+    } catch (e) {
+        console.error("Failed to send image context", e);
+        if (lastImageRef.current === src) lastImageRef.current = null;
     }
+  }, []);
+
+  const closeConnection = () => {
+    reportLiveTime(false);
+    const sessionPromise = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    lastImageRef.current = null;
+    sessionPromise?.then(s => s.close()).catch(() => {});
+  };
+
+  const releaseAudio = () => {
     if (streamRef.current) { streamRef.current.getTracks().forEach(t => t.stop()); streamRef.current = null; }
     if (audioNodesRef.current.source) { audioNodesRef.current.source.disconnect(); audioNodesRef.current.source = null; }
-    if (audioNodesRef.current.processor) { audioNodesRef.current.processor.disconnect(); audioNodesRef.current.processor = null; }
+    if (audioNodesRef.current.capture) { audioNodesRef.current.capture.port.onmessage = null; audioNodesRef.current.capture.disconnect(); audioNodesRef.current.capture = null; }
+    if (audioNodesRef.current.playback) { audioNodesRef.current.playback.port.onmessage = null; audioNodesRef.current.playback.disconnect(); audioNodesRef.current.playback = null; }
     if (audioContextRefs.current.input) { audioContextRefs.current.input.close(); audioContextRefs.current.input = null; }
     if (audioContextRefs.current.output) { audioContextRefs.current.output.close(); audioContextRefs.current.output = null; }
-    
-    audioSourcesRef.current.forEach(s => s.stop());
-    audioSourcesRef.current.clear();
-    nextStartTimeRef.current = 0;
-    onInterimTranscript('');
-    setIsLive(false);
-  }, [onInterimTranscript]);
+  };
+
+  const teardown = (next: 'idle' | 'failed') => {
+    if (reconnectTimerRef.current) { clearTimeout(reconnectTimerRef.current); reconnectTimerRef.current = null; }
+    closeConnection();
+    releaseAudio();
+    resumptionHandleRef.current = null;
+    reconnectAttemptRef.current = 0;
+    currentInputTranscriptionRef.current = '';
+    currentOutputTranscriptionRef.current = '';
+    propsRef.current.onInterimTranscript('');
+    propsRef.current.onAiSpeakingStatusChange(false);
+    updateStatus(next);
+  };
+
+  const stopSession = useCallback(async () => {
+    teardown('idle');
+  }, []);
+
+  // Mic -> capture worklet -> whichever connection is currently live; model audio -> playback worklet.
+  const setupAudio = async () => {
+    streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    // Contexts run at the device's native rate; forcing a rate is not honoured everywhere and breaks mic input in some browsers.
+    const input = new AudioContext();
+    const output = new AudioContext();
+    audioContextRefs.current = { input, output };
+    await Promise.all([loadAudioWorklets(input), loadAudioWorklets(output)]);
+
+    const playback = new AudioWorkletNode(output, PLAYBACK_PROCESSOR, {
+        numberOfInputs: 0,
+        outputChannelCount: [1],
+        processorOptions: { sourceRate: OUTPUT_SAMPLE_RATE, prebufferMs: 80, idleMs: 250 },
+    });
+    playback.port.onmessage = ({ data }) => propsRef.current.onAiSpeakingStatusChange(data.type === 'playing');
+    playback.connect(output.destination);
+
+    // 100 ms per message at 16 kHz.
+    const capture = new AudioWorkletNode(input, CAPTURE_PROCESSOR, {
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: { targetRate: INPUT_SAMPLE_RATE, chunkSize: INPUT_SAMPLE_RATE / 10 },
+    });
+    // Audio captured while reconnecting is dropped rather than replayed late into the new connection.
+    capture.port.onmessage = ({ data }: MessageEvent<ArrayBuffer>) => {
+        if (statusRef.current !== 'live') return;
+        // A failed connection is handled by connect(), which schedules the reconnect; the chunk is just dropped.
+        sessionPromiseRef.current?.then(s => s.sendRealtimeInput({ media: createPcmBlob(new Int16Array(data), INPUT_SAMPLE_RATE) })).catch(() => {});
+    };
+    const source = input.createMediaStreamSource(streamRef.current);
+    source.connect(capture);
+    audioNodesRef.current = { source, capture, playback };
+  };
+
+  const scheduleReconnect = (reason: string) => {
+    closeConnection();
+    audioNodesRef.current.playback?.port.postMessage({ type: 'flush' });
+    reconnectAttemptRef.current += 1;
+    if (reconnectAttemptRef.current > MAX_RECONNECT_ATTEMPTS) {
+        setError(`Lost the connection to Forgy: ${reason}`);
+        teardown('failed');
+        return;
+    }
+    updateStatus('reconnecting');
+    const backoff = Math.min(1000 * 2 ** (reconnectAttemptRef.current - 1), MAX_BACKOFF_MS);
+    reconnectTimerRef.current = setTimeout(() => {
+        reconnectTimerRef.current = null;
+        connect();
+    }, backoff + Math.random() * 250);
+  };
+
+  const handleMessage = async (msg: LiveServerMessage) => {
+    const { onFunctionCall, onTurnComplete, onInterimTranscript, onAiSpeakingStatusChange } = propsRef.current;
+
+    if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+        resumptionHandleRef.current = msg.sessionResumptionUpdate.newHandle;
+    }
+    // The server is about to drop this connection (e.g. at its duration limit); move over before it does.
+    if (msg.goAway) {
+        scheduleReconnect("the server ended the session");
+        return;
+    }
+
+    if (msg.usageMetadata) {
+        propsRef.current.onUsage({ inputTokens: msg.usageMetadata.promptTokenCount ?? 0, outputTokens: msg.usageMetadata.responseTokenCount ?? 0 });
+    }
+
+    if (msg.serverContent?.inputTranscription) {
+        currentInputTranscriptionRef.current += msg.serverContent.inputTranscription.text;
+        onInterimTranscript(currentInputTranscriptionRef.current);
+    }
+    if (msg.serverContent?.outputTranscription) {
+        currentOutputTranscriptionRef.current += msg.serverContent.outputTranscription.text;
+    }
+    if (msg.serverContent?.interrupted) {
+        // Barge-in: drop the queued reply so Forgy stops mid-word, and log what was said so far.
+        audioNodesRef.current.playback?.port.postMessage({ type: 'flush' });
+        onAiSpeakingStatusChange(false);
+        if (currentOutputTranscriptionRef.current) {
+            onTurnComplete(currentInputTranscriptionRef.current, currentOutputTranscriptionRef.current, true);
+            currentInputTranscriptionRef.current = '';
+            currentOutputTranscriptionRef.current = '';
+            onInterimTranscript('');
+        }
+    }
+    if (msg.serverContent?.turnComplete) {
+        onTurnComplete(currentInputTranscriptionRef.current, currentOutputTranscriptionRef.current);
+        currentInputTranscriptionRef.current = '';
+        currentOutputTranscriptionRef.current = '';
+        onInterimTranscript('');
+    }
+
+    const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
+    if (audioData && audioNodesRef.current.playback) {
+        const samples = pcm16ToFloat32(decode(audioData));
+        audioNodesRef.current.playback.port.postMessage({ type: 'chunk', samples }, [samples.buffer]);
+    }
+
+    if (msg.toolCall) {
+        for (const fc of msg.toolCall.functionCalls) {
+            let response: Record<string, unknown>;
+            try {
+                response = await onFunctionCall(fc.name, fc.args);
+            } catch (e) {
+                console.error(e);
+                response = { error: e instanceof Error ? e.message : `${fc.name} failed` };
+            }
+            const { image, ...result } = response;
+            // Tools can outlast the connection that asked (a video takes minutes), so answer on whichever one is
+            // current: after a resume that is the new one, which carries on the same conversation. Once stopped, or
+            // if that one fails too, there's no one to answer.
+            sessionPromiseRef.current?.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: result } })).catch(() => {});
+            // Let the model see what it just made, so it can judge the result and describe it honestly.
+            if (typeof image === 'string' && image.startsWith('data:image/')) updateImageContext(image);
+        }
+    }
+  };
+
+  const connect = () => {
+    const ai = getAiClient();
+    const settings = settingsRef.current;
+    const sessionPromise: Promise<LiveSession> = ai.live.connect({
+        model: settings.liveModel,
+        config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice }},
+                languageCode: settings.replyLanguage || undefined,
+            },
+            inputAudioTranscription: settings.transcriptionLanguage ? { languageCodes: [settings.transcriptionLanguage] } : {},
+            outputAudioTranscription: {},
+            tools: [{ functionDeclarations: propsRef.current.toolDeclarations }],
+            systemInstruction: buildSystemInstruction(settings),
+            sessionResumption: { handle: resumptionHandleRef.current ?? undefined },
+            // Keeps long editing sessions under the context limit instead of being cut off by it.
+            contextWindowCompression: { slidingWindow: {} },
+        },
+        callbacks: {
+            onopen: () => {
+                if (sessionPromiseRef.current !== sessionPromise) return;
+                reconnectAttemptRef.current = 0;
+                liveSinceRef.current = Date.now();
+                setError(null);
+                updateStatus('live');
+                // A fresh connection has seen no picture yet, even when resuming the conversation.
+                if (desiredImageRef.current) updateImageContext(desiredImageRef.current);
+            },
+            onmessage: (msg: LiveServerMessage) => {
+                if (sessionPromiseRef.current === sessionPromise) handleMessage(msg);
+            },
+            onclose: (e: CloseEvent) => {
+                if (sessionPromiseRef.current === sessionPromise) scheduleReconnect(e.reason || `connection closed (${e.code})`);
+            },
+            onerror: (e: ErrorEvent) => {
+                console.error(e);
+                if (sessionPromiseRef.current === sessionPromise) scheduleReconnect(e.message || "network error");
+            },
+        }
+    });
+    sessionPromiseRef.current = sessionPromise;
+    sessionPromise.catch(e => {
+        console.error(e);
+        if (sessionPromiseRef.current === sessionPromise) scheduleReconnect(e instanceof Error ? e.message : "could not connect");
+    });
+  };
 
   const startSession = useCallback(async (currentImageBase64?: string) => {
-    if (isLive) return;
+    if (statusRef.current !== 'idle' && statusRef.current !== 'failed') return;
+    const blocked = budgetBlock('liveMinutes') ?? budgetBlock('tokens');
+    if (blocked) {
+        setError(blocked);
+        updateStatus('failed');
+        return;
+    }
     setError(null);
+    updateStatus('connecting');
     currentInputTranscriptionRef.current = '';
     currentOutputTranscriptionRef.current = '';
-    
+    desiredImageRef.current = currentImageBase64 ?? null;
+    settingsRef.current = getSettings();
+
     try {
-        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-        audioContextRefs.current.input = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-        audioContextRefs.current.output = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-        
-        const ai = getAiClient();
-        const sessionPromise = ai.live.connect({
-            model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' }}},
-                inputAudioTranscription: {},
-                outputAudioTranscription: {},
-                tools: tools,
-                // Updated system instruction to be more patient
-                systemInstruction: "You are Forgy, a professional but cool AI editor. You see the image the user has uploaded. LISTEN to the user completely. Do not interrupt. Wait for a specific command to edit the image before suggesting things. If the user just says hello, say hello back briefly. Only use the editImage tool when explicitly asked.",
-            },
-            callbacks: {
-                onopen: () => {
-                    setIsLive(true);
-                    if (!audioContextRefs.current.input || !streamRef.current) return;
-                    
-                    // Send initial image context immediately so the model sees what we see
-                    if (currentImageBase64) {
-                         sessionPromise.then(s => s.sendRealtimeInput({ 
-                            media: { 
-                                mimeType: 'image/jpeg', 
-                                data: currentImageBase64.split(',')[1] 
-                            } 
-                        }));
-                    }
-
-                    audioNodesRef.current.source = audioContextRefs.current.input.createMediaStreamSource(streamRef.current);
-                    audioNodesRef.current.processor = audioContextRefs.current.input.createScriptProcessor(4096, 1, 1);
-                    audioNodesRef.current.processor.onaudioprocess = (e) => {
-                        sessionPromise.then(s => s.sendRealtimeInput({ media: createBlob(e.inputBuffer.getChannelData(0)) }));
-                    };
-                    audioNodesRef.current.source.connect(audioNodesRef.current.processor);
-                    audioNodesRef.current.processor.connect(audioContextRefs.current.input.destination);
-                },
-                onmessage: async (msg: LiveServerMessage) => {
-                    if (msg.serverContent?.inputTranscription) {
-                        currentInputTranscriptionRef.current += msg.serverContent.inputTranscription.text;
-                        onInterimTranscript(currentInputTranscriptionRef.current);
-                    }
-                    if (msg.serverContent?.outputTranscription) {
-                        currentOutputTranscriptionRef.current += msg.serverContent.outputTranscription.text;
-                    }
-                    if (msg.serverContent?.turnComplete) {
-                        onTurnComplete(currentInputTranscriptionRef.current, currentOutputTranscriptionRef.current);
-                        currentInputTranscriptionRef.current = '';
-                        currentOutputTranscriptionRef.current = '';
-                        onInterimTranscript('');
-                    }
-                    
-                    const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData.data;
-                    if (audioData && audioContextRefs.current.output) {
-                        if (audioSourcesRef.current.size === 0) onAiSpeakingStatusChange(true);
-                        const ctx = audioContextRefs.current.output;
-                        const start = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                        const buffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-                        const source = ctx.createBufferSource();
-                        source.buffer = buffer;
-                        source.connect(ctx.destination);
-                        source.onended = () => {
-                            audioSourcesRef.current.delete(source);
-                            if (audioSourcesRef.current.size === 0) onAiSpeakingStatusChange(false);
-                        };
-                        source.start(start);
-                        nextStartTimeRef.current = start + buffer.duration;
-                        audioSourcesRef.current.add(source);
-                    }
-
-                    if (msg.toolCall) {
-                        for (const fc of msg.toolCall.functionCalls) {
-                            await onFunctionCall(fc.name, fc.args);
-                            sessionPromise.then(s => s.sendToolResponse({ functionResponses: { id: fc.id, name: fc.name, response: { result: "ok" } } }));
-                        }
-                    }
-                },
-                onclose: () => stopSession(),
-                onerror: () => stopSession(),
-            }
-        });
-        sessionPromiseRef.current = sessionPromise;
+        await setupAudio();
     } catch (e) {
         console.error(e);
-        setError("Connection failed");
-        stopSession();
+        setError(describeMediaError(e));
+        teardown('failed');
+        return;
+    }
+    // Stopped while the microphone prompt was open.
+    if (statusRef.current !== 'connecting') {
+        releaseAudio();
+        return;
     }
-  }, [isLive, onFunctionCall, stopSession, onTurnComplete, onInterimTranscript, onAiSpeakingStatusChange]);
+    connect();
+  }, []);
 
-  useEffect(() => { return () => { stopSession(); } }, [stopSession]);
+  useEffect(() => { return () => { teardown('idle'); } }, []);
 
-  return { isLive, error, startSession, stopSession };
-};
\ No newline at end of file
+  return { status, isLive: status === 'live' || status === 'reconnecting', error, startSession, stopSession, updateImageContext };
+};
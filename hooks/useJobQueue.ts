@@ -0,0 +1,9 @@
+import { useState } from 'react';
+import { createJobQueue, Job } from '../services/jobQueue';
+
+// The queue itself is created once; `jobs` mirrors its queued and running entries for rendering.
+export const useJobQueue = (concurrency: number) => {
+    const [jobs, setJobs] = useState<Job[]>([]);
+    const [queue] = useState(() => createJobQueue(concurrency, setJobs));
+    return { jobs, enqueue: queue.enqueue, cancel: queue.cancel };
+};
@@ -62,7 +62,7 @@ interface SpeechRecognitionHook {
   hasRecognitionSupport: boolean;
 }
 
-const useSpeechRecognition = (): SpeechRecognitionHook => {
+const useSpeechRecognition = (lang = 'en-US'): SpeechRecognitionHook => {
   const [isListening, setIsListening] = useState(false);
   const [transcript, setTranscript] = useState('');
   const recognitionRef = useRef<SpeechRecognition | null>(null);
@@ -87,7 +87,7 @@ const useSpeechRecognition = (): SpeechRecognitionHook => {
     
     recognition.continuous = true;
     recognition.interimResults = true;
-    recognition.lang = 'en-US';
+    recognition.lang = lang;
 
     recognition.onresult = (event) => {
       let interimTranscript = '';
@@ -141,6 +141,11 @@ const useSpeechRecognition = (): SpeechRecognitionHook => {
     };
   }, []);
 
+  // Applies from the next start; a running recognition keeps the language it started with.
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = lang;
+  }, [lang]);
+
   const startListening = () => {
     if (recognitionRef.current && !isListening) {
       setTranscript('');
@@ -0,0 +1,236 @@
+// Relay for live collaboration (see services/collab.ts). Browsers connect to ws://<host>:<port>/rooms/<session id>
+// and every message is passed on to the others in the same room, or only to the peer named by a leading "to"
+// field. The relay keeps nothing but the list of who is connected: the session lives in the browsers, and the
+// peers already in a room bring a newcomer up to date.
+//
+// No dependencies, so it runs wherever Node does:
+//   node server/relay.mjs [--port 8787] [--host 0.0.0.0]
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const i = args.indexOf(`--${name}`);
+    return i !== -1 && args[i + 1] ? args[i + 1] : fallback;
+};
+
+const PORT = Number(option('port', process.env.PORT ?? 8787));
+const HOST = option('host', process.env.HOST ?? '0.0.0.0');
+
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Versions travel as data URLs, but browsers split a catch-up into batches (batchOps in services/collab.ts),
+// so only a single very long clip comes near this.
+const MAX_MESSAGE_BYTES = 32 * 1024 * 1024;
+// A peer that can't take messages as fast as they come is dropped rather than buffered for without limit; it
+// reconnects and catches up on what it missed.
+const MAX_BUFFERED_BYTES = 64 * 1024 * 1024;
+// Connections that don't answer a ping within this long are dropped, so peers see them leave.
+const PING_INTERVAL_MS = 30000;
+
+const OP_CONTINUATION = 0x0;
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+const CLOSE_NORMAL = 1000;
+const CLOSE_PROTOCOL_ERROR = 1002;
+const CLOSE_TOO_BIG = 1009;
+
+// Room id -> connected clients.
+const rooms = new Map();
+
+const QUOTE = 0x22;
+const ROUTED_PREFIX = Buffer.from('{"to":"');
+
+class Client {
+    constructor(socket, room) {
+        this.socket = socket;
+        this.room = room;
+        // Learned from the first message, which is always the peer's hello.
+        this.peerId = null;
+        this.alive = true;
+        this.closed = false;
+        // Unparsed input, kept as a list so a large message isn't copied once per TCP chunk.
+        this.chunks = [];
+        this.buffered = 0;
+        this.frame = null;
+        this.message = null;
+    }
+
+    send(opcode, payload) {
+        if (this.closed) return;
+        const length = payload.length;
+        const extra = length < 126 ? 0 : length < 65536 ? 2 : 8;
+        const header = Buffer.alloc(2 + extra);
+        header[0] = 0x80 | opcode;
+        if (extra === 0) header[1] = length;
+        else if (extra === 2) { header[1] = 126; header.writeUInt16BE(length, 2); }
+        else { header[1] = 127; header.writeBigUInt64BE(BigInt(length), 2); }
+        this.socket.cork();
+        this.socket.write(header);
+        this.socket.write(payload);
+        this.socket.uncork();
+    }
+
+    close(code) {
+        if (this.closed) return;
+        if (code) {
+            const payload = Buffer.alloc(2);
+            payload.writeUInt16BE(code);
+            this.send(OP_CLOSE, payload);
+        }
+        this.closed = true;
+        this.socket.end();
+        leave(this);
+    }
+
+    // The first `n` buffered bytes, merging chunks only when the first one is too short.
+    peek(n) {
+        if (this.chunks[0].length < n) this.chunks = [Buffer.concat(this.chunks, this.buffered)];
+        return this.chunks[0];
+    }
+
+    take(n) {
+        const all = this.chunks.length === 1 ? this.chunks[0] : Buffer.concat(this.chunks, this.buffered);
+        this.chunks = all.length > n ? [all.subarray(n)] : [];
+        this.buffered -= n;
+        return all.subarray(0, n);
+    }
+
+    receive(chunk) {
+        // Still sending, even if a large message is holding up its pong.
+        this.alive = true;
+        this.chunks.push(chunk);
+        this.buffered += chunk.length;
+        while (!this.closed) {
+            if (!this.frame) {
+                if (this.buffered < 2) return;
+                const head = this.peek(Math.min(this.buffered, 14));
+                const masked = (head[1] & 0x80) !== 0;
+                const short = head[1] & 0x7f;
+                const extra = short === 126 ? 2 : short === 127 ? 8 : 0;
+                const size = 2 + extra + (masked ? 4 : 0);
+                if (this.buffered < size) return;
+                // Clients must mask everything they send.
+                if (!masked) return this.close(CLOSE_PROTOCOL_ERROR);
+                const length = extra === 2 ? head.readUInt16BE(2) : extra === 8 ? Number(head.readBigUInt64BE(2)) : short;
+                if (length > MAX_MESSAGE_BYTES) return this.close(CLOSE_TOO_BIG);
+                this.frame = { fin: (head[0] & 0x80) !== 0, opcode: head[0] & 0x0f, length, mask: Buffer.from(head.subarray(2 + extra, size)) };
+                this.take(size);
+            }
+            if (this.buffered < this.frame.length) return;
+            const { fin, opcode, length, mask } = this.frame;
+            const payload = Buffer.from(this.take(length));
+            for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+            this.frame = null;
+            this.handleFrame(fin, opcode, payload);
+        }
+    }
+
+    handleFrame(fin, opcode, payload) {
+        // The close is echoed with the peer's own status code (RFC 6455 §5.5.1); an empty one means 1000.
+        if (opcode === OP_CLOSE) return this.close(payload.length >= 2 ? payload.readUInt16BE(0) : CLOSE_NORMAL);
+        if (opcode === OP_PING) return this.send(OP_PONG, payload);
+        if (opcode === OP_PONG) { this.alive = true; return; }
+
+        // Control frames may arrive between the fragments of a message; data frames continue or start one.
+        if (opcode === OP_CONTINUATION) {
+            if (!this.message) return this.close(CLOSE_PROTOCOL_ERROR);
+            this.message.parts.push(payload);
+            this.message.size += payload.length;
+        } else {
+            this.message = { opcode, parts: [payload], size: payload.length };
+        }
+        if (this.message.size > MAX_MESSAGE_BYTES) return this.close(CLOSE_TOO_BIG);
+        if (!fin) return;
+        const { opcode: messageOpcode, parts, size } = this.message;
+        this.message = null;
+        if (messageOpcode === OP_TEXT) this.forward(parts.length === 1 ? parts[0] : Buffer.concat(parts, size));
+    }
+
+    forward(data) {
+        if (!this.peerId) {
+            try {
+                this.peerId = JSON.parse(data.toString('utf8')).from ?? null;
+            } catch {
+                // Not one of ours; pass it on anyway.
+            }
+        }
+        // Senders put "to" first when a message is meant for one peer, so it's found without parsing the rest.
+        const to = data.subarray(0, ROUTED_PREFIX.length).equals(ROUTED_PREFIX)
+            ? data.toString('utf8', ROUTED_PREFIX.length, data.indexOf(QUOTE, ROUTED_PREFIX.length))
+            : null;
+        for (const other of rooms.get(this.room) ?? []) {
+            if (other === this || (to && other.peerId !== to)) continue;
+            if (other.socket.writableLength + data.length > MAX_BUFFERED_BYTES) other.socket.destroy();
+            else other.send(OP_TEXT, data);
+        }
+    }
+}
+
+const join = client => {
+    if (!rooms.has(client.room)) rooms.set(client.room, new Set());
+    rooms.get(client.room).add(client);
+};
+
+const leave = client => {
+    const room = rooms.get(client.room);
+    if (!room?.delete(client)) return;
+    if (room.size === 0) { rooms.delete(client.room); return; }
+    if (!client.peerId) return;
+    const bye = Buffer.from(JSON.stringify({ type: 'bye', from: client.peerId }));
+    for (const other of room) other.send(OP_TEXT, bye);
+};
+
+const peerCount = () => [...rooms.values()].reduce((total, room) => total + room.size, 0);
+
+const server = createServer((request, response) => {
+    response.writeHead(200, { 'content-type': 'text/plain' });
+    response.end(`Forgy relay: ${rooms.size} room(s), ${peerCount()} peer(s)\n`);
+});
+
+server.on('upgrade', (request, socket, head) => {
+    const match = /^\/rooms\/([^/?#]+)/.exec(request.url ?? '');
+    const key = request.headers['sec-websocket-key'];
+    let room = null;
+    try {
+        room = match && decodeURIComponent(match[1]);
+    } catch {
+        // Malformed escape; rejected below.
+    }
+    if (!room || !key || request.headers.upgrade?.toLowerCase() !== 'websocket') {
+        socket.end('HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n');
+        return;
+    }
+
+    const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+    socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+    socket.setNoDelay(true);
+
+    const client = new Client(socket, room);
+    join(client);
+    // Whatever arrived with the handshake is the start of the first frame.
+    if (head.length > 0) client.receive(head);
+    socket.on('data', chunk => client.receive(chunk));
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => { client.closed = true; leave(client); });
+});
+
+setInterval(() => {
+    for (const room of rooms.values()) {
+        for (const client of room) {
+            if (!client.alive) { client.socket.destroy(); continue; }
+            client.alive = false;
+            client.send(OP_PING, Buffer.alloc(0));
+        }
+    }
+}, PING_INTERVAL_MS).unref();
+
+server.listen(PORT, HOST, () => {
+    console.log(`Forgy relay listening on port ${PORT}. Share one of these as the relay address:`);
+    const addresses = Object.values(networkInterfaces()).flat().filter(a => a && a.family === 'IPv4');
+    for (const { address } of addresses) console.log(`  ws://${address}:${PORT}`);
+});
@@ -0,0 +1,151 @@
+import { AdjustmentOperation, FilterName } from '../types';
+import { blurCanvas, createCanvas, loadImage, outputMimeType } from './mediaUtils';
+
+export const FILTER_NAMES: FilterName[] = ['grayscale', 'sepia', 'vintage', 'noir', 'invert', 'blur'];
+
+const clamp = (value: number) => value < 0 ? 0 : value > 255 ? 255 : value;
+
+// Per-pixel colour transforms are done by hand rather than with `ctx.filter`, which not every browser supports.
+export const mapPixels = (ctx: CanvasRenderingContext2D, fn: (r: number, g: number, b: number) => [number, number, number]) => {
+    const image = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    const { data } = image;
+    for (let i = 0; i < data.length; i += 4) {
+        const [r, g, b] = fn(data[i], data[i + 1], data[i + 2]);
+        data[i] = clamp(r);
+        data[i + 1] = clamp(g);
+        data[i + 2] = clamp(b);
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+const luma = (r: number, g: number, b: number) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+const sepia = (r: number, g: number, b: number): [number, number, number] => [
+    0.393 * r + 0.769 * g + 0.189 * b,
+    0.349 * r + 0.686 * g + 0.168 * b,
+    0.272 * r + 0.534 * g + 0.131 * b,
+];
+
+export const saturate = (amount: number) => (r: number, g: number, b: number): [number, number, number] => {
+    const l = luma(r, g, b);
+    return [l + (r - l) * (1 + amount), l + (g - l) * (1 + amount), l + (b - l) * (1 + amount)];
+};
+
+export const contrast = (amount: number) => (r: number, g: number, b: number): [number, number, number] => {
+    const factor = 1 + amount;
+    return [(r - 128) * factor + 128, (g - 128) * factor + 128, (b - 128) * factor + 128];
+};
+
+export const applyFilter = (ctx: CanvasRenderingContext2D, name: FilterName) => {
+    switch (name) {
+        case 'grayscale': return mapPixels(ctx, (r, g, b) => { const l = luma(r, g, b); return [l, l, l]; });
+        case 'sepia': return mapPixels(ctx, sepia);
+        case 'invert': return mapPixels(ctx, (r, g, b) => [255 - r, 255 - g, 255 - b]);
+        case 'vintage': return mapPixels(ctx, (r, g, b) => {
+            const [sr, sg, sb] = sepia(r, g, b);
+            return contrast(0.1)(r * 0.5 + sr * 0.5, g * 0.5 + sg * 0.5, b * 0.5 + sb * 0.5 + 10);
+        });
+        case 'noir': return mapPixels(ctx, (r, g, b) => { const l = luma(r, g, b); return contrast(0.4)(l, l, l); });
+        case 'blur': return blurCanvas(ctx, Math.max(2, Math.round(ctx.canvas.width / 300)));
+    }
+};
+
+// Renders `operation` onto a canvas holding `img`; geometry ops size the canvas, colour ops work in place.
+const render = (img: HTMLImageElement, operation: AdjustmentOperation): HTMLCanvasElement => {
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    switch (operation.kind) {
+        case 'crop': {
+            const sx = Math.round(operation.x * width);
+            const sy = Math.round(operation.y * height);
+            const sw = Math.max(1, Math.round(operation.width * width));
+            const sh = Math.max(1, Math.round(operation.height * height));
+            const { canvas, ctx } = createCanvas(sw, sh);
+            ctx.drawImage(img, sx, sy, sw, sh, 0, 0, sw, sh);
+            return canvas;
+        }
+        case 'rotate': {
+            const radians = operation.degrees * Math.PI / 180;
+            const sin = Math.abs(Math.sin(radians));
+            const cos = Math.abs(Math.cos(radians));
+            const { canvas, ctx } = createCanvas(Math.round(width * cos + height * sin), Math.round(width * sin + height * cos));
+            ctx.translate(canvas.width / 2, canvas.height / 2);
+            ctx.rotate(radians);
+            ctx.drawImage(img, -width / 2, -height / 2);
+            return canvas;
+        }
+        case 'flip': {
+            const { canvas, ctx } = createCanvas(width, height);
+            if (operation.axis === 'horizontal') {
+                ctx.translate(width, 0);
+                ctx.scale(-1, 1);
+            } else {
+                ctx.translate(0, height);
+                ctx.scale(1, -1);
+            }
+            ctx.drawImage(img, 0, 0);
+            return canvas;
+        }
+        case 'resize': {
+            const { canvas, ctx } = createCanvas(Math.max(1, Math.round(operation.width)), Math.max(1, Math.round(operation.height)));
+            ctx.imageSmoothingQuality = 'high';
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            return canvas;
+        }
+        default: {
+            const { canvas, ctx } = createCanvas(width, height);
+            ctx.drawImage(img, 0, 0);
+            if (operation.kind === 'exposure') {
+                const gain = Math.pow(2, operation.stops);
+                mapPixels(ctx, (r, g, b) => [r * gain, g * gain, b * gain]);
+            } else if (operation.kind === 'contrast') {
+                mapPixels(ctx, contrast(operation.amount));
+            } else if (operation.kind === 'saturation') {
+                mapPixels(ctx, saturate(operation.amount));
+            } else {
+                applyFilter(ctx, operation.name);
+            }
+            return canvas;
+        }
+    }
+};
+
+export const applyOperation = async (src: string, operation: AdjustmentOperation): Promise<string> => {
+    const img = await loadImage(src);
+    return render(img, operation).toDataURL(outputMimeType(src), 0.95);
+};
+
+// Applies a chain in order, returning every intermediate result so each step can become its own version.
+export const replayOperations = async (src: string, operations: AdjustmentOperation[]): Promise<string[]> => {
+    const results: string[] = [];
+    let current = src;
+    for (const operation of operations) {
+        current = await applyOperation(current, operation);
+        results.push(current);
+    }
+    return results;
+};
+
+const signed = (value: number, digits = 2) => `${value > 0 ? '+' : ''}${Number(value.toFixed(digits))}`;
+
+export const describeOperation = (operation: AdjustmentOperation): string => {
+    switch (operation.kind) {
+        case 'crop': return `Crop to ${Math.round(operation.width * 100)}% × ${Math.round(operation.height * 100)}%`;
+        case 'rotate': return `Rotate ${operation.degrees}°`;
+        case 'flip': return `Flip ${operation.axis}`;
+        case 'resize': return `Resize to ${Math.round(operation.width)} × ${Math.round(operation.height)}`;
+        case 'exposure': return `Exposure ${signed(operation.stops)} EV`;
+        case 'contrast': return `Contrast ${signed(operation.amount)}`;
+        case 'saturation': return `Saturation ${signed(operation.amount)}`;
+        case 'filter': return `Filter: ${operation.name}`;
+    }
+};
+
+// Largest centred crop of the given aspect ratio (width / height), as fractions.
+export const centerCrop = (aspect: number, width: number, height: number): AdjustmentOperation => {
+    const fitsWidth = width / height > aspect;
+    const cropWidth = fitsWidth ? height * aspect / width : 1;
+    const cropHeight = fitsWidth ? 1 : width / aspect / height;
+    return { kind: 'crop', x: (1 - cropWidth) / 2, y: (1 - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
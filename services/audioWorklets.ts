@@ -0,0 +1,180 @@
+// AudioWorklet processors for the live session. They are plain JavaScript kept as strings and loaded from
+// blob URLs, so no extra build step or static asset is needed.
+
+export const CAPTURE_PROCESSOR = 'pcm-capture';
+export const PLAYBACK_PROCESSOR = 'pcm-playback';
+
+// Microphone -> 16-bit PCM at `targetRate`, whatever rate the context actually runs at. Low-passes before
+// downsampling so speech doesn't alias, then interpolates; posts `chunkSize` samples at a time.
+const CAPTURE_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { targetRate, chunkSize } = options.processorOptions;
+        this.step = sampleRate / targetRate;
+        this.chunkSize = chunkSize;
+        this.chunk = new Int16Array(chunkSize);
+        this.length = 0;
+        // Read position of the next output sample; -1 refers to the last sample of the previous block.
+        this.position = 0;
+        this.previous = 0;
+        this.filter = sampleRate > targetRate ? this.lowPass(targetRate * 0.45) : null;
+        this.state = [0, 0, 0, 0];
+        this.filtered = new Float32Array(128);
+    }
+
+    // RBJ biquad low-pass coefficients, normalised by a0.
+    lowPass(cutoff) {
+        const w0 = 2 * Math.PI * cutoff / sampleRate;
+        const cos = Math.cos(w0);
+        const alpha = Math.sin(w0) / (2 * Math.SQRT1_2);
+        const a0 = 1 + alpha;
+        return { b0: (1 - cos) / 2 / a0, b1: (1 - cos) / a0, b2: (1 - cos) / 2 / a0, a1: -2 * cos / a0, a2: (1 - alpha) / a0 };
+    }
+
+    emit(value) {
+        const s = Math.max(-1, Math.min(1, value));
+        this.chunk[this.length++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+        if (this.length === this.chunkSize) {
+            this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+            this.chunk = new Int16Array(this.chunkSize);
+            this.length = 0;
+        }
+    }
+
+    process(inputs) {
+        const input = inputs[0] && inputs[0][0];
+        if (!input) return true;
+        const n = input.length;
+        if (this.filtered.length < n) this.filtered = new Float32Array(n);
+        const samples = this.filtered;
+
+        if (this.filter) {
+            const { b0, b1, b2, a1, a2 } = this.filter;
+            let [x1, x2, y1, y2] = this.state;
+            for (let i = 0; i < n; i++) {
+                const x = input[i];
+                const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+                x2 = x1; x1 = x; y2 = y1; y1 = y;
+                samples[i] = y;
+            }
+            this.state = [x1, x2, y1, y2];
+        } else {
+            samples.set(input);
+        }
+
+        while (this.position <= n - 1) {
+            const index = Math.floor(this.position);
+            const frac = this.position - index;
+            const a = index < 0 ? this.previous : samples[index];
+            const b = index + 1 < n ? samples[index + 1] : a;
+            this.emit(a + (b - a) * frac);
+            this.position += this.step;
+        }
+        this.position -= n;
+        this.previous = samples[n - 1];
+        return true;
+    }
+}
+registerProcessor('${CAPTURE_PROCESSOR}', PcmCaptureProcessor);
+`;
+
+// Float32 chunks at `sourceRate` -> speakers. A small jitter buffer absorbs uneven network delivery; playback
+// starts once `prebufferMs` of audio is queued (or has waited that long) and reports 'playing' / 'idle'.
+const PLAYBACK_SOURCE = `
+class PcmPlaybackProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+        super();
+        const { sourceRate, prebufferMs, idleMs } = options.processorOptions;
+        this.step = sourceRate / sampleRate;
+        this.prebuffer = sourceRate * prebufferMs / 1000;
+        this.maxWait = sampleRate * prebufferMs / 1000;
+        this.idleFrames = sampleRate * idleMs / 1000;
+        this.queue = [];
+        this.queued = 0;
+        this.offset = 0;
+        this.playing = false;
+        this.speaking = false;
+        this.waited = 0;
+        this.silent = 0;
+        this.port.onmessage = ({ data }) => {
+            if (data.type === 'chunk') {
+                this.queue.push(data.samples);
+                this.queued += data.samples.length;
+            } else if (data.type === 'flush') {
+                this.queue = [];
+                this.queued = 0;
+                this.offset = 0;
+                this.waited = 0;
+                this.playing = false;
+                this.setSpeaking(false);
+            }
+        };
+    }
+
+    setSpeaking(speaking) {
+        if (speaking === this.speaking) return;
+        this.speaking = speaking;
+        this.port.postMessage({ type: speaking ? 'playing' : 'idle' });
+    }
+
+    sampleAt(index) {
+        for (const chunk of this.queue) {
+            if (index < chunk.length) return chunk[index];
+            index -= chunk.length;
+        }
+        return 0;
+    }
+
+    process(_, outputs) {
+        const output = outputs[0][0];
+        const available = this.queued - this.offset;
+        if (!this.playing && available >= 1) {
+            this.waited += output.length;
+            if (available >= this.prebuffer || this.waited >= this.maxWait) {
+                this.playing = true;
+                this.waited = 0;
+                this.silent = 0;
+                this.setSpeaking(true);
+            }
+        }
+
+        if (!this.playing) {
+            this.silent += output.length;
+            if (this.silent >= this.idleFrames) this.setSpeaking(false);
+            return true;
+        }
+
+        for (let i = 0; i < output.length; i++) {
+            if (this.queued - this.offset < 1) {
+                // Ran dry: stay quiet and re-buffer rather than stutter through every late packet.
+                this.playing = false;
+                break;
+            }
+            const index = Math.floor(this.offset);
+            const frac = this.offset - index;
+            const a = this.sampleAt(index);
+            const b = index + 1 < this.queued ? this.sampleAt(index + 1) : a;
+            output[i] = a + (b - a) * frac;
+            this.offset += this.step;
+            while (this.queue.length > 0 && this.offset >= this.queue[0].length) {
+                this.offset -= this.queue[0].length;
+                this.queued -= this.queue[0].length;
+                this.queue.shift();
+            }
+        }
+        for (let c = 1; c < outputs[0].length; c++) outputs[0][c].set(output);
+        return true;
+    }
+}
+registerProcessor('${PLAYBACK_PROCESSOR}', PcmPlaybackProcessor);
+`;
+
+export const loadAudioWorklets = async (ctx: AudioContext) => {
+    const url = URL.createObjectURL(new Blob([CAPTURE_SOURCE, PLAYBACK_SOURCE], { type: 'application/javascript' }));
+    try {
+        await ctx.audioWorklet.addModule(url);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
@@ -0,0 +1,69 @@
+import { ImageEditProvider } from './providers/types';
+import { dataUrlToBlob, extensionForMimeType } from './mediaUtils';
+import { RecipeStep, runRecipeSteps } from './recipes';
+import { replayOperations } from './adjustments';
+import { writeZip } from './zipUtils';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+    id: string;
+    // Original file name, reused for the download.
+    name: string;
+    source: string;
+    // Full-resolution image when `source` was downscaled on import.
+    original?: string;
+    status: BatchItemStatus;
+    // Fixed when the item first runs, so a retry finishes the chain it started even if the steps were edited since.
+    steps: RecipeStep[];
+    // One data URL per completed step; a retry resumes after the last one.
+    results: string[];
+    error?: string;
+}
+
+// One edit step per non-empty line.
+export const parseSteps = (text: string): RecipeStep[] =>
+    text.split('\n').map(line => line.trim()).filter(Boolean).map(prompt => ({ kind: 'edit', prompt }));
+
+// Runs `worker` over `items` with at most `limit` in flight. The worker handles its own errors; `shouldStop`
+// is checked before each new item starts, so a stop lets running items finish.
+export const runPool = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>, shouldStop: () => boolean) => {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !shouldStop()) await worker(items[next++]);
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
+
+// Continues an item's chain from its last completed step, reporting each result as it arrives.
+export const runSteps = async (provider: ImageEditProvider, item: BatchItem, onStep: (results: string[]) => void): Promise<string[]> => {
+    const done = item.results;
+    const source = done[done.length - 1] ?? item.source;
+    const rest = await runRecipeSteps(provider, source, item.steps.slice(done.length), undefined, partial => onStep([...done, ...partial]));
+    return [...done, ...rest];
+};
+
+// A chain of local adjustments is replayed on the full-resolution original, so it loses nothing to the
+// downscaling on import; a model edit can only be as large as the image it was given.
+const finalImage = async (item: BatchItem): Promise<string> => {
+    const operations = item.steps.flatMap(step => step.kind === 'adjust' ? [step.operation] : []);
+    if (item.original && operations.length === item.steps.length) {
+        const replayed = await replayOperations(item.original, operations);
+        return replayed[replayed.length - 1];
+    }
+    return item.results[item.results.length - 1];
+};
+
+// Final result of every finished item, named after its source file.
+export const exportBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+    const used = new Set<string>();
+    const entries = await Promise.all(items.filter(item => item.status === 'done' && item.results.length > 0).map(async item => {
+        const blob = dataUrlToBlob(await finalImage(item));
+        const stem = item.name.replace(/\.[^.]+$/, '') || 'image';
+        let name = `${stem}-forgy.${extensionForMimeType(blob.type)}`;
+        for (let n = 2; used.has(name); n++) name = `${stem}-forgy-${n}.${extensionForMimeType(blob.type)}`;
+        used.add(name);
+        return { name, data: new Uint8Array(await blob.arrayBuffer()) };
+    }));
+    return writeZip(entries);
+};
@@ -0,0 +1,322 @@
+import { MediaVersion, Session, TranscriptEntry } from '../types';
+
+// Live collaboration on one session through the relay in server/relay.mjs. The room is named after the
+// session id, and everyone in it keeps a full copy of the session, sending the others operations for what
+// changed. Versions and transcript entries never change once made and carry unique ids, so they merge by
+// union and arrive at the same result in any order. The title and the current version are single values:
+// the latest write wins, and the writer's peer id breaks ties. Peers that meet (on joining, or again after a
+// dropped connection) swap the ids they hold and send each other only what the other is missing.
+
+export type CollabStatus = 'offline' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface Peer {
+    id: string;
+    name: string;
+    color: string;
+    // Looking at another session of their own.
+    away?: boolean;
+    activity?: 'talking' | 'generating';
+}
+
+interface Stamp {
+    at: number;
+    by: string;
+}
+
+export type SessionOp =
+    | { kind: 'version'; version: MediaVersion }
+    | { kind: 'entry'; entry: TranscriptEntry }
+    // null rather than undefined, which JSON would drop.
+    | { kind: 'title'; title: string | null; stamp: Stamp }
+    | { kind: 'current'; versionId: string; stamp: Stamp };
+
+// The ids of everything a peer holds of the shared session, so others can tell what it lacks.
+export interface Inventory {
+    versionIds: string[];
+    entryIds: string[];
+}
+
+export type CollabMessage =
+    | { type: 'hello'; peer: Peer; have: Inventory }
+    // The answer to a hello, from each peer already in the room.
+    | { type: 'welcome'; peer: Peer; have: Inventory }
+    | { type: 'presence'; peer: Peer }
+    // `createdAt` lets a peer that has never seen the session create its copy.
+    | { type: 'ops'; ops: SessionOp[]; createdAt: number }
+    // Sent by the relay when a connection closes.
+    | { type: 'bye' };
+
+export type CollabEnvelope = CollabMessage & { from: string; to?: string };
+
+// What this peer has already sent or received for the shared session. Anything in the session that isn't
+// in here is a local change still to be sent.
+export interface Replica {
+    versionIds: Set<string>;
+    entryIds: Set<string>;
+    title: { value: string | null; stamp: Stamp };
+    current: { versionId: string | null; stamp: Stamp };
+}
+
+const NEVER: Stamp = { at: -1, by: '' };
+
+const isNewer = (a: Stamp, b: Stamp) => a.at > b.at || (a.at === b.at && a.by > b.by);
+
+// Stamps only move forward, even when this machine's clock is behind the one that wrote the last value.
+const nextStamp = (last: Stamp, selfId: string): Stamp => ({ at: Math.max(Date.now(), last.at + 1), by: selfId });
+
+// The starting point for sharing `session`, or for joining one not seen before. State brought in from a local
+// copy is stamped at time 0, so any edit made since by anyone wins over it.
+export const createReplica = (selfId: string, session?: Session): Replica => ({
+    versionIds: new Set(session?.versions.map(v => v.id)),
+    entryIds: new Set(session?.transcript.map(e => e.id)),
+    title: { value: session?.title ?? null, stamp: session ? { at: 0, by: selfId } : NEVER },
+    current: { versionId: session?.versions[session.currentIndex]?.id ?? null, stamp: session ? { at: 0, by: selfId } : NEVER },
+});
+
+// Everything in `session` the others haven't been told about yet, marked as sent.
+export const localOps = (replica: Replica, session: Session, selfId: string): SessionOp[] => {
+    const ops: SessionOp[] = [];
+    for (const version of session.versions) {
+        if (replica.versionIds.has(version.id)) continue;
+        replica.versionIds.add(version.id);
+        ops.push({ kind: 'version', version });
+    }
+    for (const entry of session.transcript) {
+        if (replica.entryIds.has(entry.id)) continue;
+        replica.entryIds.add(entry.id);
+        ops.push({ kind: 'entry', entry });
+    }
+    const title = session.title ?? null;
+    if (title !== replica.title.value) {
+        replica.title = { value: title, stamp: nextStamp(replica.title.stamp, selfId) };
+        ops.push({ kind: 'title', title, stamp: replica.title.stamp });
+    }
+    const versionId = session.versions[session.currentIndex]?.id;
+    if (versionId && versionId !== replica.current.versionId) {
+        replica.current = { versionId, stamp: nextStamp(replica.current.stamp, selfId) };
+        ops.push({ kind: 'current', versionId, stamp: replica.current.stamp });
+    }
+    return ops;
+};
+
+export const inventoryOf = (session: Session | undefined): Inventory => ({
+    versionIds: session?.versions.map(v => v.id) ?? [],
+    entryIds: session?.transcript.map(e => e.id) ?? [],
+});
+
+// What a peer holding `have` is missing from `session`, plus the title and current version, which are small
+// and settle by their stamps.
+export const missingOps = (replica: Replica, session: Session, have: Inventory): SessionOp[] => {
+    const versionIds = new Set(have.versionIds);
+    const entryIds = new Set(have.entryIds);
+    return [
+        ...session.versions.filter(v => !versionIds.has(v.id)).map(version => ({ kind: 'version' as const, version })),
+        ...session.transcript.filter(e => !entryIds.has(e.id)).map(entry => ({ kind: 'entry' as const, entry })),
+        { kind: 'title', title: replica.title.value, stamp: replica.title.stamp },
+        ...(replica.current.versionId ? [{ kind: 'current' as const, versionId: replica.current.versionId, stamp: replica.current.stamp }] : []),
+    ];
+};
+
+// The relay refuses messages over 32 MB, so a catch-up goes out in batches of about this much media, in order,
+// so parents still arrive before their children. A single version larger than this still goes alone.
+const MAX_BATCH_BYTES = 8 * 1024 * 1024;
+
+export const batchOps = (ops: SessionOp[]): SessionOp[][] => {
+    const batches: SessionOp[][] = [];
+    let batch: SessionOp[] = [];
+    let size = 0;
+    for (const op of ops) {
+        const opSize = op.kind === 'version' ? op.version.src.length + (op.version.original?.length ?? 0) : 0;
+        if (batch.length > 0 && size + opSize > MAX_BATCH_BYTES) {
+            batches.push(batch);
+            batch = [];
+            size = 0;
+        }
+        batch.push(op);
+        size += opSize;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+};
+
+// Merges another peer's operations into `session` (undefined when this peer has no copy yet) and records them
+// in `replica`. A new copy is created as `id`, numbered `number` in this peer's list (numbers aren't shared).
+// Returns `session` itself when nothing changed, and undefined when there is still no session.
+// Safe to run twice on the same input, as React does with state updaters in development.
+export const applyOps = (replica: Replica, session: Session | undefined, ops: SessionOp[], base: Pick<Session, 'id' | 'createdAt' | 'number'>): Session | undefined => {
+    const knownVersions = new Set(session?.versions.map(v => v.id));
+    const knownEntries = new Set(session?.transcript.map(e => e.id));
+    const versions: MediaVersion[] = [];
+    const entries: TranscriptEntry[] = [];
+    let title: string | null | undefined;
+    let currentId: string | undefined;
+
+    for (const op of ops) {
+        if (op.kind === 'version') {
+            replica.versionIds.add(op.version.id);
+            if (!knownVersions.has(op.version.id)) { knownVersions.add(op.version.id); versions.push(op.version); }
+        } else if (op.kind === 'entry') {
+            replica.entryIds.add(op.entry.id);
+            if (!knownEntries.has(op.entry.id)) { knownEntries.add(op.entry.id); entries.push(op.entry); }
+        } else if (op.kind === 'title') {
+            if (isNewer(replica.title.stamp, op.stamp)) continue;
+            replica.title = { value: op.title, stamp: op.stamp };
+            title = op.title;
+        } else {
+            if (isNewer(replica.current.stamp, op.stamp)) continue;
+            replica.current = { versionId: op.versionId, stamp: op.stamp };
+            currentId = op.versionId;
+        }
+    }
+
+    if (!session && versions.length === 0) return undefined;
+    const currentTitle = session?.title ?? null;
+    const currentVersionId = session?.versions[session.currentIndex]?.id;
+    if (session && versions.length === 0 && entries.length === 0 && (title === undefined || title === currentTitle) && (currentId === undefined || currentId === currentVersionId)) {
+        return session;
+    }
+
+    const allVersions = [...(session?.versions ?? []), ...versions];
+    const transcript = entries.length > 0 ? [...(session?.transcript ?? []), ...entries].sort((a, b) => a.timestamp - b.timestamp) : session?.transcript ?? [];
+    const currentIndex = currentId ? allVersions.findIndex(v => v.id === currentId) : -1;
+    const nextTitle = title === undefined ? currentTitle : title;
+    return {
+        ...(session ?? base),
+        title: nextTitle ?? undefined,
+        versions: allVersions,
+        transcript,
+        currentIndex: currentIndex !== -1 ? currentIndex : session?.currentIndex ?? allVersions.length - 1,
+        updatedAt: Date.now(),
+    };
+};
+
+// --- Connection ---
+
+export interface RelayConnection {
+    // Dropped while disconnected; peers catch each other up when they meet again.
+    send: (message: CollabMessage, to?: string) => void;
+    close: () => void;
+}
+
+interface RelayHandlers {
+    onStatus: (status: CollabStatus) => void;
+    onMessage: (message: CollabEnvelope) => void;
+    onError: (message: string) => void;
+}
+
+// A relay on the LAN may restart or the laptop may sleep, so reconnecting never gives up; it backs off
+// 1s, 2s, 4s... up to MAX_BACKOFF_MS.
+const MAX_BACKOFF_MS = 15000;
+
+export const connectToRelay = (relayUrl: string, roomId: string, selfId: string, handlers: RelayHandlers): RelayConnection => {
+    let socket: WebSocket | null = null;
+    let attempt = 0;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let isClosed = false;
+
+    const open = () => {
+        try {
+            socket = new WebSocket(`${relayUrl.replace(/\/+$/, '')}/rooms/${encodeURIComponent(roomId)}`);
+        } catch {
+            handlers.onError(`"${relayUrl}" is not a relay address. It should look like ws://192.168.1.20:8787`);
+            handlers.onStatus('offline');
+            isClosed = true;
+            return;
+        }
+        socket.onopen = () => {
+            attempt = 0;
+            handlers.onStatus('connected');
+        };
+        socket.onmessage = event => {
+            try {
+                handlers.onMessage(JSON.parse(event.data));
+            } catch (e) {
+                console.error('Ignoring unreadable collaboration message', e);
+            }
+        };
+        socket.onclose = () => {
+            socket = null;
+            if (isClosed) return;
+            attempt += 1;
+            if (attempt === 3) handlers.onError(`Can't reach the relay at ${relayUrl}. Is it running (npm run relay) and on the same network?`);
+            handlers.onStatus('reconnecting');
+            const backoff = Math.min(1000 * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+            timer = setTimeout(() => { timer = null; open(); }, backoff + Math.random() * 250);
+        };
+    };
+
+    handlers.onStatus('connecting');
+    open();
+
+    return {
+        send: (message, to) => {
+            if (socket?.readyState !== WebSocket.OPEN) return;
+            // `to` goes first: the relay reads it off the front of the message without parsing the rest.
+            socket.send(JSON.stringify(to ? { to, from: selfId, ...message } : { from: selfId, ...message }));
+        },
+        close: () => {
+            isClosed = true;
+            if (timer) clearTimeout(timer);
+            socket?.close();
+            socket = null;
+            handlers.onStatus('offline');
+        },
+    };
+};
+
+// --- Identity and invites ---
+
+export interface CollabSettings {
+    name: string;
+    relayUrl: string;
+}
+
+const COLLAB_KEY = 'forgy.collab';
+
+// The relay usually runs next to the dev server, so the page's own host is the best first guess.
+const defaultRelayUrl = () => `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.hostname || 'localhost'}:8787`;
+
+export const getCollabSettings = (): CollabSettings => {
+    const defaults = { name: '', relayUrl: defaultRelayUrl() };
+    try {
+        return { ...defaults, ...JSON.parse(localStorage.getItem(COLLAB_KEY) ?? '{}') };
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveCollabSettings = (settings: CollabSettings) => {
+    localStorage.setItem(COLLAB_KEY, JSON.stringify(settings));
+};
+
+const PEER_COLORS = ['#f87171', '#fb923c', '#facc15', '#4ade80', '#2dd4bf', '#60a5fa', '#a78bfa', '#f472b6'];
+
+export const peerColor = (id: string) => {
+    let hash = 0;
+    for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+};
+
+export const peerName = (peer: Pick<Peer, 'id' | 'name'>) => peer.name.trim() || `Guest ${peer.id.slice(0, 4).toUpperCase()}`;
+
+export interface Invite {
+    roomId: string;
+    relayUrl: string;
+}
+
+export const inviteLink = ({ roomId, relayUrl }: Invite) => {
+    const url = new URL(location.pathname, location.origin);
+    url.searchParams.set('room', roomId);
+    url.searchParams.set('relay', relayUrl);
+    return url.toString();
+};
+
+// The invite this page was opened with, if any.
+export const readInvite = (): Invite | null => {
+    const params = new URLSearchParams(location.search);
+    const roomId = params.get('room');
+    return roomId ? { roomId, relayUrl: params.get('relay') || getCollabSettings().relayUrl } : null;
+};
+
+// Once acted on, so reloading doesn't join again.
+export const clearInvite = () => history.replaceState(null, '', location.pathname);
@@ -0,0 +1,143 @@
+import { FILTER_NAMES } from './adjustments';
+import { defineTool } from './toolRegistry';
+
+const useSelection = { type: 'boolean', description: 'Defaults to true. Set to false only when the user asks to edit the whole image despite having a selection.' } as const;
+
+// Everything the live agent can do in the editor. Handlers are bound in App, which owns the state they act on.
+export const EDITOR_TOOLS = {
+    editImage: defineTool({
+        name: 'editImage',
+        description: 'Edits the image. Use this for requests like "add a hat", "change color", "remove object". If the user has painted a selection on the canvas, the edit is limited to that region.',
+        parameters: { prompt: { type: 'string' }, useSelection },
+        required: ['prompt'],
+    }),
+    generateImage: defineTool({
+        name: 'generateImage',
+        description: 'Creates a brand new image from a text description and opens it as a new session. Use this when the user wants to start from scratch rather than change the current image.',
+        parameters: { prompt: { type: 'string' } },
+        required: ['prompt'],
+    }),
+    composeImages: defineTool({
+        name: 'composeImages',
+        description: 'Edits the current image using extra reference images, e.g. "put my logo in the corner" or "match the style of the other picture". Reference images the user attached are always included.',
+        parameters: {
+            prompt: { type: 'string' },
+            sessionNumbers: { type: 'array', items: { type: 'integer', minimum: 1 }, description: 'Numbers of other sessions (SESSION_1, SESSION_2...) whose current image should also be used as a reference.' },
+            useSelection,
+        },
+        required: ['prompt'],
+    }),
+    animateImage: defineTool({
+        name: 'animateImage',
+        description: 'Turns the current image into a short video clip, e.g. "make the clouds move" or "animate this". The clip is added as a new version.',
+        parameters: { prompt: { type: 'string', description: 'What should happen in the clip.' } },
+        required: ['prompt'],
+    }),
+    listRecipes: defineTool({
+        name: 'listRecipes',
+        description: "Lists the user's saved recipes (named chains of edits), with their steps and the placeholders each one needs.",
+        parameters: {},
+    }),
+    applyRecipe: defineTool({
+        name: 'applyRecipe',
+        description: 'Runs a saved recipe on the current image, e.g. "apply my vintage recipe". Every step becomes a new version.',
+        parameters: {
+            name: { type: 'string', description: 'The recipe name; part of it is enough if only one recipe matches.' },
+            values: { type: 'array', items: { type: 'string' }, description: 'Placeholder values as "name=value", e.g. ["color=red"].' },
+        },
+        required: ['name'],
+    }),
+
+    // Deterministic local adjustments: instant, exact and free, so prefer them over editImage when they fit.
+    rotateImage: defineTool({
+        name: 'rotateImage',
+        description: 'Rotates the image by an exact number of degrees (positive is clockwise).',
+        parameters: { degrees: { type: 'number', minimum: -360, maximum: 360 } },
+        required: ['degrees'],
+    }),
+    flipImage: defineTool({
+        name: 'flipImage',
+        description: 'Mirrors the image.',
+        parameters: { axis: { type: 'string', enum: ['horizontal', 'vertical'] } },
+        required: ['axis'],
+    }),
+    cropImage: defineTool({
+        name: 'cropImage',
+        description: 'Crops the centre of the image to an aspect ratio such as "1:1", "4:3" or "16:9".',
+        parameters: { aspectRatio: { type: 'string' } },
+        required: ['aspectRatio'],
+    }),
+    resizeImage: defineTool({
+        name: 'resizeImage',
+        description: 'Resizes the image, keeping its proportions. Give either a scale factor (0.5 = half size) or a target width in pixels.',
+        parameters: { scale: { type: 'number', minimum: 0.05, maximum: 4 }, width: { type: 'integer', minimum: 1, maximum: 8192 } },
+    }),
+    adjustTone: defineTool({
+        name: 'adjustTone',
+        description: 'Changes brightness and colour. exposure is in stops (-2 to 2); contrast and saturation range from -1 to 1. Omit what should not change.',
+        parameters: {
+            exposure: { type: 'number', minimum: -2, maximum: 2 },
+            contrast: { type: 'number', minimum: -1, maximum: 1 },
+            saturation: { type: 'number', minimum: -1, maximum: 1 },
+        },
+    }),
+    applyFilter: defineTool({
+        name: 'applyFilter',
+        description: 'Applies a classic photo filter.',
+        parameters: { name: { type: 'string', enum: FILTER_NAMES } },
+        required: ['name'],
+    }),
+
+    // Editor commands: navigation, viewing and housekeeping. None of these call a model.
+    undo: defineTool({
+        name: 'undo',
+        description: 'Steps back to the previous version (the parent of the one on screen). Nothing is deleted.',
+        parameters: {},
+    }),
+    redo: defineTool({
+        name: 'redo',
+        description: 'Steps forward again after an undo.',
+        parameters: {},
+    }),
+    goToVersion: defineTool({
+        name: 'goToVersion',
+        description: 'Shows a specific version of the current session, numbered as in the timeline (VERSION 1 is the original).',
+        parameters: { version: { type: 'integer', minimum: 1 } },
+        required: ['version'],
+    }),
+    compareWithOriginal: defineTool({
+        name: 'compareWithOriginal',
+        description: 'Shows the original image in place of the current version so the user can compare, or switches back.',
+        parameters: { show: { type: 'boolean', description: 'Defaults to true. Set to false to go back to the current version.' } },
+    }),
+    zoom: defineTool({
+        name: 'zoom',
+        description: 'Sets the canvas zoom. 1 fits the image to the screen; the maximum is 3.',
+        parameters: { level: { type: 'number', minimum: 1, maximum: 3 } },
+        required: ['level'],
+    }),
+    newSession: defineTool({
+        name: 'newSession',
+        description: 'Leaves the current session and opens an empty studio so the user can upload or describe a new image.',
+        parameters: {},
+    }),
+    exportImage: defineTool({
+        name: 'exportImage',
+        description: 'Downloads the version on screen. Videos are always saved as-is.',
+        parameters: {
+            format: { type: 'string', enum: ['png', 'jpeg', 'webp'], description: 'Defaults to png.' },
+            quality: { type: 'integer', minimum: 10, maximum: 100, description: 'JPEG and WebP quality in percent. Defaults to 92.' },
+        },
+    }),
+    exportSession: defineTool({
+        name: 'exportSession',
+        description: 'Downloads the whole session, every version and the transcript, as a bundle that can be opened again later.',
+        parameters: {},
+    }),
+    renameSession: defineTool({
+        name: 'renameSession',
+        description: 'Renames the current session.',
+        parameters: { name: { type: 'string' } },
+        required: ['name'],
+    }),
+};
@@ -0,0 +1,134 @@
+import { MediaVersion, Session } from '../types';
+import { blobToDataUrl, dataUrlToBlob, extensionForMimeType, loadImage, parseDataUrl } from './mediaUtils';
+import { NewSession } from './sessions';
+import { parseLegacyLine } from './transcript';
+import { readZip, writeZip } from './zipUtils';
+
+export type ImageExportFormat = 'png' | 'jpeg' | 'webp';
+
+const BUNDLE_FORMAT = 'forgy-session';
+// Version 2 stores structured transcript entries; version 1 bundles still import.
+const BUNDLE_VERSION = 2;
+const MANIFEST_NAME = 'manifest.json';
+
+interface BundleVersion extends Omit<MediaVersion, 'src' | 'original'> {
+    file: string;
+    mimeType: string;
+    originalFile?: string;
+    originalMimeType?: string;
+}
+
+interface BundleManifest {
+    format: typeof BUNDLE_FORMAT;
+    version: number;
+    exportedAt: string;
+    // Without `number`: numbers belong to one browser's list, and an imported session is given the next one there.
+    session: Omit<Session, 'versions' | 'number'> & { versions: BundleVersion[] };
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportSource = (version: MediaVersion) => version.original ?? version.src;
+
+// Re-encodes an image version; `quality` (0-1) only affects JPEG and WebP.
+export const exportImage = async (src: string, format: ImageExportFormat, quality = 0.92): Promise<Blob> => {
+    const img = await loadImage(src);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no alpha; flatten onto white instead of the browser's default black.
+    if (format === 'jpeg') {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(img, 0, 0);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error(`Export to ${format} failed`)), `image/${format}`, quality);
+    });
+};
+
+export const exportSessionBundle = async (session: Session): Promise<Blob> => {
+    const entries = session.versions.map(v => {
+        const blob = dataUrlToBlob(v.src);
+        const original = v.original ? dataUrlToBlob(v.original) : undefined;
+        return {
+            version: v,
+            blob,
+            file: `media/${v.id}.${extensionForMimeType(blob.type)}`,
+            original,
+            originalFile: original ? `media/${v.id}-original.${extensionForMimeType(original.type)}` : undefined,
+        };
+    });
+
+    const manifest: BundleManifest = {
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        session: {
+            id: session.id,
+            title: session.title,
+            transcript: session.transcript,
+            currentIndex: session.currentIndex,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt,
+            versions: entries.map(({ version: { src, original: _, ...rest }, blob, file, original, originalFile }) => ({
+                ...rest,
+                file,
+                mimeType: blob.type,
+                ...(original ? { originalFile, originalMimeType: original.type } : {}),
+            })),
+        },
+    };
+
+    return writeZip([
+        { name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) },
+        ...await Promise.all(entries.map(async e => ({ name: e.file, data: new Uint8Array(await e.blob.arrayBuffer()) }))),
+        ...await Promise.all(entries.filter(e => e.original).map(async e => ({ name: e.originalFile, data: new Uint8Array(await e.original.arrayBuffer()) }))),
+    ]);
+};
+
+export const importSessionBundle = async (file: Blob): Promise<NewSession> => {
+    const files = await readZip(file);
+    const manifestBytes = files.get(MANIFEST_NAME);
+    if (!manifestBytes) throw new Error("Bundle has no manifest");
+    const manifest: BundleManifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+    if (manifest.format !== BUNDLE_FORMAT) throw new Error("Not a Forgy session bundle");
+    if (manifest.version > BUNDLE_VERSION) throw new Error("Bundle was made by a newer version of Forgy");
+
+    const versions: MediaVersion[] = [];
+    for (const { file: path, mimeType, originalFile, originalMimeType, ...rest } of manifest.session.versions) {
+        const data = files.get(path);
+        if (!data) throw new Error(`Bundle is missing ${path}`);
+        // A missing original only costs resolution, so it doesn't fail the import.
+        const original = originalFile ? files.get(originalFile) : undefined;
+        versions.push({
+            ...rest,
+            src: await blobToDataUrl(new Blob([data], { type: mimeType })),
+            ...(original ? { original: await blobToDataUrl(new Blob([original], { type: originalMimeType })) } : {}),
+        });
+    }
+
+    return {
+        id: manifest.session.id,
+        title: manifest.session.title,
+        versions,
+        transcript: manifest.version < 2
+            ? (manifest.session.transcript as unknown as string[]).map(line => parseLegacyLine(line, Date.parse(manifest.exportedAt) || Date.now()))
+            : manifest.session.transcript,
+        currentIndex: Math.min(manifest.session.currentIndex, versions.length - 1),
+        // Bundles from before sessions kept times fall back to when they were exported.
+        createdAt: manifest.session.createdAt ?? (Date.parse(manifest.exportedAt) || Date.now()),
+        updatedAt: manifest.session.updatedAt ?? (Date.parse(manifest.exportedAt) || Date.now()),
+    };
+};
+
+export const versionFileName = (version: MediaVersion, extension = extensionForMimeType(parseDataUrl(version.src).mimeType)) =>
+    `forgy-${version.id.slice(0, 8)}.${extension}`;
@@ -1,6 +1,11 @@
-import { GoogleGenAI, Modality, Blob } from "@google/genai";
+import { GoogleGenAI, Modality, Blob, Part } from "@google/genai";
+import { maskToModelImage } from "./maskUtils";
+import { blobToDataUrl, parseDataUrl } from "./mediaUtils";
+import { TokenUsage } from "./providers/types";
+import { httpErrorFrom, sleep, withRetry } from "./retry";
+import { getSettings } from "./settings";
 
-const getAiClient = (): GoogleGenAI => {
+export const getAiClient = (): GoogleGenAI => {
     const API_KEY = process.env.API_KEY;
     if (!API_KEY) {
         throw new Error("API_KEY environment variable is not set");
@@ -8,7 +13,7 @@ const getAiClient = (): GoogleGenAI => {
     return new GoogleGenAI({ apiKey: API_KEY });
 };
 
-const fileToGenerativePart = (base64: string, mimeType: string) => {
+const fileToGenerativePart = (base64: string, mimeType: string): Part => {
   return {
     inlineData: {
       data: base64,
@@ -17,17 +22,29 @@ const fileToGenerativePart = (base64: string, mimeType: string) => {
   };
 };
 
-export const editImage = async (imageBase64: string, prompt: string): Promise<string> => {
+const MASK_INSTRUCTION = "The image right before this text is a mask. Apply the edit only inside the white area of the mask and keep everything in the black area exactly as it is.";
+const REFERENCE_INSTRUCTION = "The images right before this text are references (for example a logo to place or a style to match). The first image is the one being edited.";
+
+const generateImageFromParts = async (parts: Part[], signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<string> => {
     const ai = getAiClient();
-    const imagePart = fileToGenerativePart(imageBase64.split(',')[1], imageBase64.split(',')[0].split(':')[1].split(';')[0]);
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts: [imagePart, { text: prompt }] },
+    const response = await withRetry(() => ai.models.generateContent({
+        model: getSettings().editModel,
+        contents: { parts },
         config: {
             responseModalities: [Modality.IMAGE],
+            abortSignal: signal,
         },
-    });
+    }), signal);
+    const usage = response.usageMetadata;
+    if (usage) onUsage?.({ inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 });
+
+    // A prompt or picture the model refuses comes back without candidates; say why instead of failing on it.
+    const blocked = response.promptFeedback?.blockReason;
+    if (blocked) throw new Error(`The request was blocked (${blocked.toLowerCase().replace(/_/g, ' ')})`);
+    if (!response.candidates?.[0]?.content?.parts) {
+        const reason = response.candidates?.[0]?.finishReason;
+        throw new Error(reason ? `No image generated (${reason.toLowerCase().replace(/_/g, ' ')})` : "No image generated");
+    }
 
     for (const part of response.candidates[0].content.parts) {
         if (part.inlineData) {
@@ -39,6 +56,58 @@ export const editImage = async (imageBase64: string, prompt: string): Promise<st
     throw new Error("No image generated");
 };
 
+export const editImage = async (imageBase64: string, prompt: string, options: { mask?: string, referenceImages?: string[], signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void } = {}): Promise<string> => {
+    const image = parseDataUrl(imageBase64);
+    const parts: Part[] = [fileToGenerativePart(image.data, image.mimeType)];
+    if (options.mask) {
+        const mask = parseDataUrl(await maskToModelImage(options.mask));
+        parts.push(fileToGenerativePart(mask.data, mask.mimeType), { text: MASK_INSTRUCTION });
+    }
+    if (options.referenceImages?.length) {
+        options.referenceImages.map(parseDataUrl).forEach(ref => parts.push(fileToGenerativePart(ref.data, ref.mimeType)));
+        parts.push({ text: REFERENCE_INSTRUCTION });
+    }
+    parts.push({ text: prompt });
+    return generateImageFromParts(parts, options.signal, options.onUsage);
+};
+
+export const generateImage = async (prompt: string, signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<string> => {
+    return generateImageFromParts([{ text: prompt }], signal, onUsage);
+};
+
+const VIDEO_MODEL = 'veo-3.0-fast-generate-001';
+const VIDEO_POLL_INTERVAL_MS = 10000;
+
+// Veo runs as a long-running operation; poll it, then download the clip as a data URL.
+export const generateVideo = async (prompt: string, imageBase64?: string, signal?: AbortSignal): Promise<string> => {
+    const ai = getAiClient();
+    const image = imageBase64 ? parseDataUrl(imageBase64) : null;
+    let operation = await withRetry(() => ai.models.generateVideos({
+        model: VIDEO_MODEL,
+        prompt,
+        image: image ? { imageBytes: image.data, mimeType: image.mimeType } : undefined,
+        config: { numberOfVideos: 1, abortSignal: signal },
+    }), signal);
+    while (!operation.done) {
+        await sleep(VIDEO_POLL_INTERVAL_MS, signal);
+        const pending = operation;
+        operation = await withRetry(() => ai.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } }), signal);
+        // The SDK may finish a poll that was aborted midway; don't carry on as if it hadn't been.
+        signal?.throwIfAborted();
+    }
+    if (operation.error) throw new Error(`Video generation failed: ${operation.error.message ?? 'unknown error'}`);
+
+    const video = operation.response?.generatedVideos?.[0]?.video;
+    if (video?.videoBytes) return `data:${video.mimeType ?? 'video/mp4'};base64,${video.videoBytes}`;
+    if (!video?.uri) throw new Error("No video generated");
+    const response = await withRetry(async () => {
+        const response = await fetch(`${video.uri}${video.uri.includes('?') ? '&' : '?'}key=${process.env.API_KEY}`, { signal });
+        if (!response.ok) throw await httpErrorFrom(response, "Video download");
+        return response;
+    }, signal);
+    return blobToDataUrl(await response.blob());
+};
+
 export function decode(base64: string): Uint8Array {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -54,23 +123,16 @@ export function encode(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
-export function createBlob(data: Float32Array): Blob {
-    const l = data.length;
-    const int16 = new Int16Array(l);
-    for (let i = 0; i < l; i++) int16[i] = data[i] * 32768;
+export function createPcmBlob(samples: Int16Array, sampleRate: number): Blob {
     return {
-        data: encode(new Uint8Array(int16.buffer)),
-        mimeType: 'audio/pcm;rate=16000',
+        data: encode(new Uint8Array(samples.buffer, samples.byteOffset, samples.byteLength)),
+        mimeType: `audio/pcm;rate=${sampleRate}`,
     };
 }
 
-export async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-  }
-  return buffer;
-}
\ No newline at end of file
+export function pcm16ToFloat32(data: Uint8Array): Float32Array {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength >> 1);
+  const samples = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) samples[i] = dataInt16[i] / 32768.0;
+  return samples;
+}
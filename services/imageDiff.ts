@@ -0,0 +1,74 @@
+import { createCanvas, loadImage } from './mediaUtils';
+
+export interface DiffResult {
+    // Version A in dim grey with every changed pixel painted over it, hottest where the change is largest,
+    // and a dashed box around the whole changed area so small stray changes are easy to spot.
+    heatmap: string;
+    // Share of pixels whose difference exceeds the threshold, 0-1.
+    changed: number;
+}
+
+// Diffing is per pixel on the main thread; larger images are compared at this size.
+const MAX_DIFF_DIMENSION = 2048;
+
+// Dark red -> red -> yellow -> white as the difference grows.
+const heatColor = (t: number): [number, number, number] => {
+    if (t < 1 / 3) return [128 + 381 * t, 0, 0];
+    if (t < 2 / 3) return [255, 765 * (t - 1 / 3), 0];
+    return [255, 255, 765 * (t - 2 / 3)];
+};
+
+// B is drawn at A's size, so versions that were cropped or resized only line up approximately.
+// `threshold` (0-255) is the largest per-channel difference still treated as unchanged, which hides
+// re-encoding noise.
+export const computeDiff = async (srcA: string, srcB: string, threshold = 16): Promise<DiffResult> => {
+    const [a, b] = await Promise.all([loadImage(srcA), loadImage(srcB)]);
+    const ratio = Math.min(1, MAX_DIFF_DIMENSION / Math.max(a.naturalWidth, a.naturalHeight));
+    const width = Math.max(1, Math.round(a.naturalWidth * ratio));
+    const height = Math.max(1, Math.round(a.naturalHeight * ratio));
+
+    const pixels = (img: HTMLImageElement) => {
+        const { ctx } = createCanvas(width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+        return ctx.getImageData(0, 0, width, height).data;
+    };
+    const pa = pixels(a);
+    const pb = pixels(b);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const out = ctx.createImageData(width, height);
+    const data = out.data;
+    let changed = 0;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const diff = Math.max(Math.abs(pa[i] - pb[i]), Math.abs(pa[i + 1] - pb[i + 1]), Math.abs(pa[i + 2] - pb[i + 2]), Math.abs(pa[i + 3] - pb[i + 3]));
+        if (diff > threshold) {
+            const [r, g, bl] = heatColor((diff - threshold) / (255 - threshold));
+            data[i] = r;
+            data[i + 1] = g;
+            data[i + 2] = bl;
+            changed++;
+            const x = (i / 4) % width;
+            const y = Math.floor(i / 4 / width);
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        } else {
+            const grey = (0.299 * pa[i] + 0.587 * pa[i + 1] + 0.114 * pa[i + 2]) * 0.3;
+            data[i] = data[i + 1] = data[i + 2] = grey;
+        }
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(out, 0, 0);
+    if (maxX >= 0) {
+        const line = Math.max(1, Math.round(Math.max(width, height) / 400));
+        ctx.strokeStyle = '#00ff99';
+        ctx.lineWidth = line;
+        ctx.setLineDash([line * 4, line * 3]);
+        ctx.strokeRect(minX - line, minY - line, maxX - minX + 1 + line * 2, maxY - minY + 1 + line * 2);
+    }
+
+    return { heatmap: canvas.toDataURL('image/png'), changed: changed / (width * height) };
+};
@@ -0,0 +1,126 @@
+import { blobToDataUrl, createCanvas } from './mediaUtils';
+
+// Everything the user brings in (file picker, drop, paste, link) goes through here. Images are normalised
+// for the model: upright regardless of EXIF orientation, in a format it accepts, and no larger than
+// MAX_MODEL_DIMENSION. When that meant shrinking, the full-resolution picture is kept for export.
+
+export interface IngestedMedia {
+    src: string;
+    // Full-resolution version of `src`, only when `src` had to be downscaled.
+    original?: string;
+    type: 'image' | 'video';
+}
+
+const MODEL_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// The model works well below this; anything larger only costs upload time and tokens.
+const MAX_MODEL_DIMENSION = 2048;
+const JPEG_QUALITY = 0.92;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// Orientation from a JPEG's EXIF block; 1 (upright) when there is none or it can't be read.
+const readJpegOrientation = (view: DataView): number => {
+    try {
+        if (view.getUint16(0) !== 0xffd8) return 1;
+        let offset = 2;
+        while (offset + 4 <= view.byteLength) {
+            const marker = view.getUint16(offset);
+            // Image data starts at SOS; EXIF always comes before it.
+            if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+            if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+                const tiff = offset + 10;
+                const little = view.getUint16(tiff) === 0x4949;
+                const ifd = tiff + view.getUint32(tiff + 4, little);
+                const entries = view.getUint16(ifd, little);
+                for (let i = 0; i < entries; i++) {
+                    const entry = ifd + 2 + i * 12;
+                    if (view.getUint16(entry, little) === EXIF_ORIENTATION_TAG) return view.getUint16(entry + 8, little);
+                }
+                return 1;
+            }
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    } catch {
+        // Truncated or malformed EXIF: treat as upright.
+    }
+    return 1;
+};
+
+// Decodes with EXIF orientation applied. createImageBitmap can't read SVG, so fall back to an <img>,
+// which browsers also draw upright.
+const decodeImage = async (blob: Blob): Promise<ImageBitmap | HTMLImageElement> => {
+    try {
+        return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch {
+        const url = URL.createObjectURL(blob);
+        try {
+            const img = new Image();
+            img.src = url;
+            await img.decode();
+            return img;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+    }
+};
+
+const sizeOf = (image: ImageBitmap | HTMLImageElement) =>
+    image instanceof HTMLImageElement ? { width: image.naturalWidth, height: image.naturalHeight } : { width: image.width, height: image.height };
+
+const render = (image: ImageBitmap | HTMLImageElement, width: number, height: number, mimeType: string) => {
+    const { canvas, ctx } = createCanvas(width, height);
+    // JPEG has no alpha; flatten onto white rather than black.
+    if (mimeType === 'image/jpeg') {
+        ctx.fillStyle = '#fff';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(image, 0, 0, width, height);
+    return canvas.toDataURL(mimeType, JPEG_QUALITY);
+};
+
+const normalizeImage = async (blob: Blob, name: string): Promise<IngestedMedia> => {
+    const orientation = blob.type === 'image/jpeg' ? readJpegOrientation(new DataView(await blob.arrayBuffer())) : 1;
+    let image: ImageBitmap | HTMLImageElement;
+    try {
+        image = await decodeImage(blob);
+    } catch {
+        throw new Error(`Can't open ${name}: this browser can't read ${blob.type ? blob.type.replace('image/', '').toUpperCase() : 'that format'} images. Convert it to JPEG or PNG first.`);
+    }
+
+    const { width, height } = sizeOf(image);
+    const scale = Math.min(1, MAX_MODEL_DIMENSION / Math.max(width, height));
+    const isSupported = MODEL_IMAGE_TYPES.includes(blob.type);
+    if (scale === 1 && isSupported && orientation === 1) return { src: await blobToDataUrl(blob), type: 'image' };
+
+    // Lossy sources stay lossy; everything converted becomes PNG so transparency survives.
+    const mimeType = isSupported ? blob.type : 'image/png';
+    const full = isSupported && orientation === 1 ? await blobToDataUrl(blob) : render(image, width, height, mimeType);
+    if (scale === 1) return { src: full, type: 'image' };
+    const src = render(image, Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)), mimeType);
+    return { src, original: full, type: 'image' };
+};
+
+export const ingestMedia = async (blob: Blob, name = 'the file'): Promise<IngestedMedia> => {
+    if (blob.type.startsWith('video/')) return { src: await blobToDataUrl(blob), type: 'video' };
+    if (!blob.type.startsWith('image/')) throw new Error(`Can't open ${name}: it isn't an image or a video`);
+    return normalizeImage(blob, name);
+};
+
+// True for text that looks like something fetchMedia can load, e.g. a pasted link.
+export const isMediaUrl = (text: string) => /^(https?:\/\/\S+|data:(image|video)\/[^,]+,\S+)$/i.test(text.trim());
+
+// Downloads an http(s) link or decodes a data URI. Many sites don't allow their images to be read from
+// another page; that surfaces as a network error, explained rather than reported raw.
+export const fetchMedia = async (url: string): Promise<Blob> => {
+    let response: Response;
+    try {
+        response = await fetch(url.trim());
+    } catch {
+        throw new Error("Couldn't load that link. The site may not allow its images to be used elsewhere; save the image and drop the file in instead.");
+    }
+    if (!response.ok) throw new Error(`Couldn't load that link (the server responded with ${response.status})`);
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/') && !blob.type.startsWith('video/')) throw new Error("That link isn't an image or a video");
+    return blob;
+};
@@ -0,0 +1,110 @@
+// Queue for model requests (edits, generations, clips). Jobs for the same session run one at a time in the
+// order they were queued, so each builds on a settled tree; different sessions share a global limit.
+
+export type JobStatus = 'queued' | 'running';
+
+export interface Job {
+    id: string;
+    label: string;
+    // Jobs with the same session run in order; null (e.g. generating a new image) is never held back.
+    sessionId: string | null;
+    status: JobStatus;
+    queuedAt: number;
+    startedAt?: number;
+}
+
+export interface JobOptions<T> {
+    label: string;
+    sessionId: string | null;
+    timeoutMs: number;
+    // Should pass `signal` on to the provider and must not touch app state once it has aborted.
+    run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface JobQueue {
+    enqueue: <T>(options: JobOptions<T>) => Promise<T>;
+    // Drops a queued job or aborts a running one; its promise rejects with an AbortError.
+    cancel: (id: string) => void;
+}
+
+interface Entry {
+    job: Job;
+    controller: AbortController;
+    run: (signal: AbortSignal) => Promise<unknown>;
+    timeoutMs: number;
+    resolve: (value: unknown) => void;
+    reject: (reason: unknown) => void;
+}
+
+export const isCancellation = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+export const createJobQueue = (concurrency: number, onChange: (jobs: Job[]) => void): JobQueue => {
+    let entries: Entry[] = [];
+
+    const notify = () => onChange(entries.map(e => e.job));
+
+    const remove = (entry: Entry) => {
+        entries = entries.filter(e => e !== entry);
+    };
+
+    const start = (entry: Entry) => {
+        entry.job = { ...entry.job, status: 'running', startedAt: Date.now() };
+        const { signal } = entry.controller;
+        const timeout = setTimeout(() => {
+            entry.controller.abort(new DOMException(`Timed out after ${Math.round(entry.timeoutMs / 1000)}s`, 'TimeoutError'));
+        }, entry.timeoutMs);
+        // Settle as soon as the signal fires, even if the provider ignores it.
+        const aborted = new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason), { once: true }));
+        // Leave the queue before settling so callers never see their own finished job still listed.
+        const settle = (callback: (value: unknown) => void) => (value: unknown) => {
+            clearTimeout(timeout);
+            remove(entry);
+            callback(value);
+            pump();
+        };
+        Promise.race([entry.run(signal), aborted]).then(settle(entry.resolve), settle(entry.reject));
+    };
+
+    const pump = () => {
+        let running = entries.filter(e => e.job.status === 'running').length;
+        // Only the earliest job of each session is eligible, whether or not it has started.
+        const seen = new Set<string>();
+        for (const entry of entries) {
+            const { sessionId, status } = entry.job;
+            const blocked = sessionId !== null && seen.has(sessionId);
+            if (sessionId !== null) seen.add(sessionId);
+            if (running >= concurrency) break;
+            if (status === 'queued' && !blocked) {
+                start(entry);
+                running++;
+            }
+        }
+        notify();
+    };
+
+    return {
+        enqueue: <T>({ label, sessionId, timeoutMs, run }: JobOptions<T>) => new Promise<T>((resolve, reject) => {
+            entries.push({
+                job: { id: crypto.randomUUID(), label, sessionId, status: 'queued', queuedAt: Date.now() },
+                controller: new AbortController(),
+                run,
+                timeoutMs,
+                resolve: resolve as (value: unknown) => void,
+                reject,
+            });
+            pump();
+        }),
+        cancel: id => {
+            const entry = entries.find(e => e.job.id === id);
+            if (!entry) return;
+            const reason = new DOMException("Cancelled", 'AbortError');
+            if (entry.job.status === 'running') {
+                entry.controller.abort(reason);
+            } else {
+                remove(entry);
+                entry.reject(reason);
+                pump();
+            }
+        },
+    };
+};
@@ -0,0 +1,58 @@
+import { blurCanvas, createCanvas, loadImage, outputMimeType } from './mediaUtils';
+
+export type SelectionTool = 'brush' | 'lasso' | 'rect';
+
+// Masks are painted as alpha on a transparent canvas; models expect white-on-black.
+export const maskToModelImage = async (mask: string): Promise<string> => {
+    const img = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/png');
+};
+
+// Pastes the edited image over the original through a feathered mask, so pixels outside the selection are untouched.
+export const compositeWithMask = async (originalSrc: string, editedSrc: string, mask: string, featherPx = 4): Promise<string> => {
+    const [original, edited, maskImg] = await Promise.all([loadImage(originalSrc), loadImage(editedSrc), loadImage(mask)]);
+    const width = original.naturalWidth;
+    const height = original.naturalHeight;
+
+    const feathered = createCanvas(width, height);
+    feathered.ctx.drawImage(maskImg, 0, 0, width, height);
+    blurCanvas(feathered.ctx, featherPx);
+
+    const layer = createCanvas(width, height);
+    layer.ctx.drawImage(edited, 0, 0, width, height);
+    layer.ctx.globalCompositeOperation = 'destination-in';
+    layer.ctx.drawImage(feathered.canvas, 0, 0);
+
+    const out = createCanvas(width, height);
+    out.ctx.drawImage(original, 0, 0);
+    out.ctx.drawImage(layer.canvas, 0, 0);
+    return out.canvas.toDataURL(outputMimeType(originalSrc), 0.92);
+};
+
+// Bounding box of the painted area as fractions of the mask size, or null for an empty mask.
+export const maskBounds = async (mask: string): Promise<{ x: number, y: number, width: number, height: number } | null> => {
+    const img = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (data[(y * width + x) * 4 + 3] === 0) continue;
+            if (x < minX) minX = x;
+            if (x > maxX) maxX = x;
+            if (y < minY) minY = y;
+            if (y > maxY) maxY = y;
+        }
+    }
+    if (maxX < 0) return null;
+    return { x: minX / width, y: minY / height, width: (maxX - minX + 1) / width, height: (maxY - minY + 1) / height };
+};
@@ -0,0 +1,153 @@
+export const parseDataUrl = (dataUrl: string): { mimeType: string, data: string } => {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.split(':')[1].split(';')[0];
+    return { mimeType, data };
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+    const { mimeType, data } = parseDataUrl(dataUrl);
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = (error) => reject(error);
+    });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Failed to load image"));
+        img.src = src;
+    });
+};
+
+export const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// Keeps lossy sources lossy so a re-rendered result doesn't balloon into a PNG.
+export const outputMimeType = (src: string) => {
+    const { mimeType } = parseDataUrl(src);
+    return mimeType === 'image/jpeg' || mimeType === 'image/webp' ? mimeType : 'image/png';
+};
+
+// One box-blur pass along every line of an RGBA buffer; the edge pixels repeat beyond the border.
+const boxBlurLines = (src: Float32Array, dst: Float32Array, lines: number, length: number, lineStride: number, step: number, radius: number) => {
+    const scale = 1 / (2 * radius + 1);
+    for (let line = 0; line < lines; line++) {
+        const start = line * lineStride;
+        for (let c = 0; c < 4; c++) {
+            let sum = 0;
+            for (let k = -radius; k <= radius; k++) sum += src[start + Math.min(length - 1, Math.max(0, k)) * step + c];
+            for (let i = 0; i < length; i++) {
+                dst[start + i * step + c] = sum * scale;
+                sum += src[start + Math.min(length - 1, i + radius + 1) * step + c] - src[start + Math.max(0, i - radius) * step + c];
+            }
+        }
+    }
+};
+
+// Gaussian-like blur of the canvas in place, `sigma` in pixels as CSS `blur()` takes it. Done on the pixels
+// because Safari ignores `ctx.filter`. Three box passes approximate the Gaussian; colour is weighted by alpha
+// so fully transparent pixels don't bleed their hidden colour into the edges.
+export const blurCanvas = (ctx: CanvasRenderingContext2D, sigma: number) => {
+    const radius = Math.round((Math.sqrt(1 + 4 * sigma * sigma) - 1) / 2);
+    const { width, height } = ctx.canvas;
+    if (radius < 1 || width === 0 || height === 0) return;
+    const image = ctx.getImageData(0, 0, width, height);
+    const { data } = image;
+    const pixels = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        pixels[i] = data[i] * alpha;
+        pixels[i + 1] = data[i + 1] * alpha;
+        pixels[i + 2] = data[i + 2] * alpha;
+        pixels[i + 3] = data[i + 3];
+    }
+    const scratch = new Float32Array(data.length);
+    for (let pass = 0; pass < 3; pass++) {
+        boxBlurLines(pixels, scratch, height, width, width * 4, 4, radius);
+        boxBlurLines(scratch, pixels, width, height, 4, width * 4, radius);
+    }
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = pixels[i + 3];
+        const unweight = alpha > 0 ? 255 / alpha : 0;
+        data[i] = pixels[i] * unweight;
+        data[i + 1] = pixels[i + 1] * unweight;
+        data[i + 2] = pixels[i + 2] * unweight;
+        data[i + 3] = alpha;
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+const MODEL_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+// Image context for the live model: small enough to send mid-conversation, labelled with its real type.
+// Sources already within bounds go as-is; anything larger or unusual is downscaled to a JPEG.
+export const encodeImageForModel = async (src: string, maxDimension = 1024): Promise<{ mimeType: string, data: string }> => {
+    const img = await loadImage(src);
+    const longest = Math.max(img.naturalWidth, img.naturalHeight);
+    const source = parseDataUrl(src);
+    if (longest <= maxDimension && MODEL_IMAGE_TYPES.includes(source.mimeType)) return source;
+
+    const scale = Math.min(1, maxDimension / longest);
+    const { canvas, ctx } = createCanvas(Math.max(1, Math.round(img.naturalWidth * scale)), Math.max(1, Math.round(img.naturalHeight * scale)));
+    // JPEG has no alpha; flatten onto white rather than black.
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return parseDataUrl(canvas.toDataURL('image/jpeg', 0.85));
+};
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'video/quicktime': 'mov',
+};
+
+export const extensionForMimeType = (mimeType: string): string =>
+    EXTENSIONS[mimeType.split(';')[0]] ?? mimeType.split('/')[1]?.split(';')[0] ?? 'bin';
+
+export const loadVideo = (src: string): Promise<HTMLVideoElement> => {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.preload = 'auto';
+        video.onloadeddata = () => resolve(video);
+        video.onerror = () => reject(new Error("Failed to load video"));
+        video.src = src;
+    });
+};
+
+// Grabs the frame shown at `time` seconds as a PNG so it can be edited like any uploaded image.
+export const extractVideoFrame = async (src: string, time: number): Promise<string> => {
+    const video = await loadVideo(src);
+    await new Promise<void>((resolve, reject) => {
+        video.onseeked = () => resolve();
+        video.onerror = () => reject(new Error("Failed to seek video"));
+        video.currentTime = Math.min(Math.max(0, time), video.duration || 0);
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,11 @@
+import { editImage, generateImage, generateVideo } from '../geminiService';
+import { ImageEditProvider } from './types';
+
+export const geminiProvider: ImageEditProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    capabilities: { generate: true, referenceImages: true, video: true, mask: true, offline: false },
+    edit: ({ image, prompt, mask, referenceImages, signal, onUsage }) => editImage(image, prompt, { mask, referenceImages, signal, onUsage }),
+    generate: ({ prompt, signal, onUsage }) => generateImage(prompt, signal, onUsage),
+    generateVideo: ({ prompt, image, signal }) => generateVideo(prompt, image, signal),
+};
@@ -0,0 +1,39 @@
+import { httpErrorFrom, withRetry } from '../retry';
+import { ImageEditProvider, ImageEditRequest, ImageGenerateRequest } from './types';
+
+interface HttpProviderOptions {
+    id: string;
+    label: string;
+    endpoint: string;
+    headers?: Record<string, string>;
+    supportsMask?: boolean;
+}
+
+// Talks to any service that accepts `ImageEditRequest` (or `ImageGenerateRequest`, which has no `image`)
+// as JSON and answers with `{ image: <data URL> }`, optionally with `usage: { inputTokens, outputTokens }`.
+export const createHttpProvider = ({ id, label, endpoint, headers = {}, supportsMask = false }: HttpProviderOptions): ImageEditProvider => {
+    const post = async ({ signal, onUsage, ...payload }: ImageEditRequest | ImageGenerateRequest): Promise<string> => {
+        const response = await withRetry(async () => {
+            const response = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...headers },
+                body: JSON.stringify(payload),
+                signal,
+            });
+            if (!response.ok) throw await httpErrorFrom(response, label);
+            return response;
+        }, signal);
+        const body = await response.json();
+        if (body?.usage) onUsage?.({ inputTokens: body.usage.inputTokens ?? 0, outputTokens: body.usage.outputTokens ?? 0 });
+        if (typeof body?.image !== 'string' || !body.image.startsWith('data:')) throw new Error(`${label} returned no image`);
+        return body.image;
+    };
+
+    return {
+        id,
+        label,
+        capabilities: { generate: true, referenceImages: false, video: false, mask: supportsMask, offline: false },
+        edit: ({ image, prompt, mask, signal, onUsage }) => post(supportsMask ? { image, prompt, mask, signal, onUsage } : { image, prompt, signal, onUsage }),
+        generate: ({ prompt, signal, onUsage }) => post({ prompt, signal, onUsage }),
+    };
+};
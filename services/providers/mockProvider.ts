@@ -0,0 +1,132 @@
+import { applyFilter, contrast, mapPixels, saturate } from '../adjustments';
+import { blobToDataUrl, blurCanvas, createCanvas, loadImage } from '../mediaUtils';
+import { ImageEditProvider } from './types';
+
+// Changes the canvas in place, on the pixels like the local adjustments, so every browser gets the same result.
+type Look = (ctx: CanvasRenderingContext2D) => void;
+
+const brightness = (gain: number): Look => ctx => mapPixels(ctx, (r, g, b) => [r * gain, g * gain, b * gain]);
+
+// The matrix CSS `hue-rotate()` uses.
+const hueRotate = (degrees: number): Look => ctx => {
+    const cos = Math.cos(degrees * Math.PI / 180);
+    const sin = Math.sin(degrees * Math.PI / 180);
+    mapPixels(ctx, (r, g, b) => [
+        r * (0.213 + cos * 0.787 - sin * 0.213) + g * (0.715 - cos * 0.715 - sin * 0.715) + b * (0.072 - cos * 0.072 + sin * 0.928),
+        r * (0.213 - cos * 0.213 + sin * 0.143) + g * (0.715 + cos * 0.285 + sin * 0.140) + b * (0.072 - cos * 0.072 - sin * 0.283),
+        r * (0.213 - cos * 0.213 - sin * 0.787) + g * (0.715 - cos * 0.715 + sin * 0.715) + b * (0.072 + cos * 0.928 + sin * 0.072),
+    ]);
+};
+
+// Keyword -> look. The first match wins; prompts with no match get a hue shift derived from the text.
+const KEYWORD_LOOKS: [RegExp, Look][] = [
+    [/\b(black and white|grayscale|greyscale|monochrome)\b/i, ctx => applyFilter(ctx, 'grayscale')],
+    [/\b(sepia|vintage|old|retro)\b/i, ctx => applyFilter(ctx, 'sepia')],
+    [/\b(invert|negative)\b/i, ctx => applyFilter(ctx, 'invert')],
+    [/\b(blur|soft|dreamy)\b/i, ctx => blurCanvas(ctx, 4)],
+    [/\b(bright|lighter|sunny)\b/i, brightness(1.3)],
+    [/\b(dark|darker|night)\b/i, brightness(0.6)],
+    [/\b(contrast|punchy)\b/i, ctx => mapPixels(ctx, contrast(0.5))],
+    [/\b(vivid|saturate|colorful|colourful)\b/i, ctx => mapPixels(ctx, saturate(0.8))],
+    [/\b(muted|desaturate|faded)\b/i, ctx => mapPixels(ctx, saturate(-0.6))],
+];
+
+const hashString = (text: string) => {
+    let hash = 0;
+    for (let i = 0; i < text.length; i++) hash = (hash * 31 + text.charCodeAt(i)) | 0;
+    return Math.abs(hash);
+};
+
+export const lookForPrompt = (prompt: string): Look => {
+    const match = KEYWORD_LOOKS.find(([pattern]) => pattern.test(prompt));
+    return match ? match[1] : hueRotate(30 + hashString(prompt.trim().toLowerCase()) % 300);
+};
+
+const GENERATED_SIZE = 1024;
+const CLIP_SECONDS = 2;
+const CLIP_FPS = 30;
+
+// Records a slow zoom that switches to the prompt's look halfway. What each frame shows depends only on the
+// inputs, but MediaRecorder captures in real time, so how long each one is held, and the file, vary between runs.
+const recordClip = async (source: CanvasImageSource, width: number, height: number, prompt: string, signal?: AbortSignal): Promise<string> => {
+    const { canvas, ctx } = createCanvas(width, height);
+    const styled = createCanvas(width, height);
+    styled.ctx.drawImage(source, 0, 0, width, height);
+    lookForPrompt(prompt)(styled.ctx);
+    const totalFrames = CLIP_SECONDS * CLIP_FPS;
+    const drawFrame = (frame: number) => {
+        const progress = frame / totalFrames;
+        const zoom = 1 + 0.15 * progress;
+        ctx.clearRect(0, 0, width, height);
+        ctx.drawImage(progress > 0.5 ? styled.canvas : source, (width - width * zoom) / 2, (height - height * zoom) / 2, width * zoom, height * zoom);
+    };
+
+    drawFrame(0);
+    const recorder = new MediaRecorder(canvas.captureStream(CLIP_FPS), { mimeType: 'video/webm' });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => chunks.push(e.data);
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+    recorder.start();
+    try {
+        for (let frame = 1; frame <= totalFrames; frame++) {
+            await new Promise(resolve => setTimeout(resolve, 1000 / CLIP_FPS));
+            signal?.throwIfAborted();
+            drawFrame(frame);
+        }
+    } finally {
+        recorder.stop();
+        await stopped;
+    }
+    return blobToDataUrl(new Blob(chunks, { type: 'video/webm' }));
+};
+
+// Offline backend: the same inputs always give the same image. Clips show the same frames but are recorded in
+// real time, so they aren't byte-for-byte repeatable.
+export const mockProvider: ImageEditProvider = {
+    id: 'mock',
+    label: 'Offline mock',
+    capabilities: { generate: true, referenceImages: true, video: true, mask: false, offline: true },
+    edit: async ({ image, prompt, referenceImages = [] }) => {
+        const img = await loadImage(image);
+        const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+        ctx.drawImage(img, 0, 0);
+        lookForPrompt(prompt)(ctx);
+
+        // References are stacked along the bottom-right edge, each a quarter of the image width.
+        const refs = await Promise.all(referenceImages.map(loadImage));
+        const margin = Math.round(canvas.width * 0.03);
+        let right = canvas.width - margin;
+        for (const ref of refs) {
+            const width = Math.round(canvas.width / 4);
+            const height = Math.round(width * ref.naturalHeight / ref.naturalWidth);
+            ctx.drawImage(ref, right - width, canvas.height - margin - height, width, height);
+            right -= width + margin;
+        }
+        return canvas.toDataURL('image/png');
+    },
+    generate: async ({ prompt }) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = GENERATED_SIZE;
+        canvas.height = GENERATED_SIZE;
+        const ctx = canvas.getContext('2d')!;
+        const hue = hashString(prompt.trim().toLowerCase()) % 360;
+        const gradient = ctx.createLinearGradient(0, 0, GENERATED_SIZE, GENERATED_SIZE);
+        gradient.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+        gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 25%)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, GENERATED_SIZE, GENERATED_SIZE);
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+        ctx.font = '600 40px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.fillText(prompt.slice(0, 40), GENERATED_SIZE / 2, GENERATED_SIZE / 2);
+        return canvas.toDataURL('image/png');
+    },
+    generateVideo: async ({ prompt, image, signal }) => {
+        if (image) {
+            const img = await loadImage(image);
+            return recordClip(img, img.naturalWidth, img.naturalHeight, prompt, signal);
+        }
+        const still = await loadImage(await mockProvider.generate!({ prompt }));
+        return recordClip(still, GENERATED_SIZE, GENERATED_SIZE, prompt, signal);
+    },
+};
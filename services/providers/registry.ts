@@ -0,0 +1,38 @@
+import { ImageEditProvider } from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+import { createHttpProvider } from './httpProvider';
+
+const ACTIVE_PROVIDER_KEY = 'forgy.imageProvider';
+
+const providers = new Map<string, ImageEditProvider>();
+
+export const registerProvider = (provider: ImageEditProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const listProviders = (): ImageEditProvider[] => [...providers.values()];
+
+export const getProvider = (id: string): ImageEditProvider => {
+    const provider = providers.get(id);
+    if (!provider) throw new Error(`Unknown image provider "${id}"`);
+    return provider;
+};
+
+export const getActiveProviderId = (): string => {
+    const stored = localStorage.getItem(ACTIVE_PROVIDER_KEY);
+    return stored && providers.has(stored) ? stored : geminiProvider.id;
+};
+
+export const setActiveProviderId = (id: string) => {
+    getProvider(id);
+    localStorage.setItem(ACTIVE_PROVIDER_KEY, id);
+};
+
+export const getActiveProvider = (): ImageEditProvider => getProvider(getActiveProviderId());
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+if (process.env.IMAGE_EDIT_ENDPOINT) {
+    registerProvider(createHttpProvider({ id: 'http', label: 'HTTP endpoint', endpoint: process.env.IMAGE_EDIT_ENDPOINT }));
+}
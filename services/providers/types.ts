@@ -0,0 +1,53 @@
+export interface ProviderCapabilities {
+    // Can create an image from a text prompt alone.
+    generate: boolean;
+    // Accepts extra images (logos, style references) alongside the one being edited.
+    referenceImages: boolean;
+    // Can produce short video clips, optionally animating a still image.
+    video: boolean;
+    // Understands a mask natively; otherwise the mask is only applied when compositing the result.
+    mask: boolean;
+    // Works without network access or an API key.
+    offline: boolean;
+}
+
+// Token counts a provider reports for one request, when it knows them.
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface ImageEditRequest {
+    // Data URLs throughout, matching MediaVersion.src.
+    image: string;
+    prompt: string;
+    mask?: string;
+    referenceImages?: string[];
+    // Providers should stop work and reject once this aborts; the queue discards late results either way.
+    signal?: AbortSignal;
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface ImageGenerateRequest {
+    prompt: string;
+    signal?: AbortSignal;
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface VideoGenerateRequest {
+    prompt: string;
+    // Starting frame; omitted for text-to-video.
+    image?: string;
+    signal?: AbortSignal;
+}
+
+export interface ImageEditProvider {
+    id: string;
+    label: string;
+    capabilities: ProviderCapabilities;
+    edit: (request: ImageEditRequest) => Promise<string>;
+    // Only present when `capabilities.generate` is true.
+    generate?: (request: ImageGenerateRequest) => Promise<string>;
+    // Only present when `capabilities.video` is true. Resolves to a video data URL.
+    generateVideo?: (request: VideoGenerateRequest) => Promise<string>;
+}
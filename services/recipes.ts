@@ -0,0 +1,137 @@
+import { AdjustmentOperation, MediaVersion, Session } from '../types';
+import { applyOperation, describeOperation } from './adjustments';
+import { ImageEditProvider } from './providers/types';
+import { getAncestry } from './versionTree';
+
+// Named, replayable chains of edits, persisted in localStorage like the assistant settings. Each step runs
+// on the result of the one before it. Prompts may contain placeholders such as `{color}`, filled in when
+// the recipe is applied.
+
+export type RecipeStep =
+    | { kind: 'edit'; prompt: string }
+    | { kind: 'adjust'; operation: AdjustmentOperation };
+
+export interface Recipe {
+    id: string;
+    name: string;
+    steps: RecipeStep[];
+}
+
+const RECIPES_KEY = 'forgy.recipes';
+const SHARE_FORMAT = 'forgy-recipe';
+const SHARE_VERSION = 1;
+
+let cached: Recipe[] | null = null;
+
+// The first saved recipes were plain lists of prompts.
+const normalizeStep = (step: unknown): RecipeStep => typeof step === 'string' ? { kind: 'edit', prompt: step } : step as RecipeStep;
+
+export const listRecipes = (): Recipe[] => {
+    if (cached) return cached;
+    try {
+        const stored = JSON.parse(localStorage.getItem(RECIPES_KEY) ?? '[]');
+        cached = Array.isArray(stored) ? stored.map(r => ({ ...r, steps: r.steps.map(normalizeStep) })) : [];
+    } catch {
+        cached = [];
+    }
+    return cached;
+};
+
+const writeRecipes = (recipes: Recipe[]) => {
+    cached = recipes;
+    localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Saving under an existing name (ignoring case) replaces that recipe.
+export const saveRecipe = (name: string, steps: RecipeStep[]): Recipe => {
+    const existing = listRecipes().find(r => sameName(r.name, name));
+    const recipe: Recipe = { id: existing?.id ?? crypto.randomUUID(), name: name.trim(), steps };
+    writeRecipes(existing ? listRecipes().map(r => r.id === existing.id ? recipe : r) : [...listRecipes(), recipe]);
+    return recipe;
+};
+
+export const deleteRecipe = (id: string) => {
+    writeRecipes(listRecipes().filter(r => r.id !== id));
+};
+
+// Exact name first, then the only recipe whose name contains the query ("vintage" -> "My vintage look").
+export const findRecipe = (query: string): Recipe | undefined => {
+    const recipes = listRecipes();
+    const exact = recipes.find(r => sameName(r.name, query));
+    if (exact) return exact;
+    const partial = recipes.filter(r => r.name.toLowerCase().includes(query.trim().toLowerCase()));
+    return partial.length === 1 ? partial[0] : undefined;
+};
+
+// Model edits and local adjustments along the path to `versionId`. The original and anything that can't be
+// replayed on a still image (clips, frames taken from clips) are left out.
+export const recipeStepsFromHistory = (session: Session, versionId: string): RecipeStep[] => {
+    const steps: RecipeStep[] = [];
+    const ancestry = getAncestry(session, versionId);
+    ancestry.forEach((version, i) => {
+        if (i === 0 || version.type !== 'image' || ancestry[i - 1].type !== 'image') return;
+        steps.push(version.operation ? { kind: 'adjust', operation: version.operation } : { kind: 'edit', prompt: version.prompt });
+    });
+    return steps;
+};
+
+export const describeStep = (step: RecipeStep) => step.kind === 'edit' ? step.prompt : describeOperation(step.operation);
+
+// The version a completed step becomes; replayed adjustments keep their operation so they stay revisable.
+export const versionForStep = (step: RecipeStep, src: string): Omit<MediaVersion, 'id' | 'parentId'> =>
+    ({ src, prompt: describeStep(step), type: 'image', ...(step.kind === 'adjust' ? { operation: step.operation } : {}) });
+
+const PLACEHOLDER = /\{([a-zA-Z][\w-]*)\}/g;
+
+export const placeholdersOf = (steps: RecipeStep[]): string[] => {
+    const names = new Set<string>();
+    for (const step of steps) {
+        if (step.kind === 'edit') for (const match of step.prompt.matchAll(PLACEHOLDER)) names.add(match[1]);
+    }
+    return [...names];
+};
+
+// Fills every placeholder; returns the names still missing instead when some have no (non-empty) value.
+export const fillPlaceholders = (steps: RecipeStep[], values: Record<string, string>): { steps: RecipeStep[] } | { missing: string[] } => {
+    const missing = placeholdersOf(steps).filter(name => !values[name]?.trim());
+    if (missing.length > 0) return { missing };
+    return {
+        steps: steps.map(step => step.kind === 'edit' ? { ...step, prompt: step.prompt.replace(PLACEHOLDER, (_, name) => values[name].trim()) } : step),
+    };
+};
+
+// Runs `steps` from `source`, one result per step. Stops with the signal's reason as soon as it aborts.
+export const runRecipeSteps = async (provider: ImageEditProvider, source: string, steps: RecipeStep[], signal?: AbortSignal, onStep?: (results: string[]) => void): Promise<string[]> => {
+    const results: string[] = [];
+    for (const step of steps) {
+        const image = results[results.length - 1] ?? source;
+        results.push(step.kind === 'edit' ? await provider.edit({ image, prompt: step.prompt, signal }) : await applyOperation(image, step.operation));
+        signal?.throwIfAborted();
+        onStep?.([...results]);
+    }
+    return results;
+};
+
+export const exportRecipe = (recipe: Recipe): string =>
+    JSON.stringify({ format: SHARE_FORMAT, version: SHARE_VERSION, recipe: { name: recipe.name, steps: recipe.steps } }, null, 2);
+
+// Imported recipes never replace an existing one; a clashing name gets a numbered suffix.
+export const importRecipe = (json: string): Recipe => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error("Not a recipe file");
+    }
+    if (parsed?.format !== SHARE_FORMAT) throw new Error("Not a Forgy recipe");
+    if (parsed.version > SHARE_VERSION) throw new Error("Recipe was made by a newer version of Forgy");
+    const { name, steps } = parsed.recipe ?? {};
+    const valid = Array.isArray(steps) && steps.every((s: any) => typeof s === 'string' || (s?.kind === 'edit' && typeof s.prompt === 'string') || (s?.kind === 'adjust' && typeof s.operation?.kind === 'string'));
+    if (typeof name !== 'string' || !name.trim() || !valid || steps.length === 0) throw new Error("Recipe file is incomplete");
+
+    let unique = name.trim();
+    for (let n = 2; listRecipes().some(r => sameName(r.name, unique)); n++) unique = `${name.trim()} (${n})`;
+    return saveRecipe(unique, steps.map(normalizeStep));
+};
@@ -0,0 +1,112 @@
+// Retries for model requests. Rate limits (429) and transient server or network failures are retried with
+// exponential backoff, honouring the delay the server asks for; everything else fails straight away with the
+// server's own explanation instead of a generic message.
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+// A server asking for a longer wait than this (a daily quota, say) is reported rather than waited out.
+const MAX_SERVER_DELAY_MS = 60000;
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+// Thrown by our own fetch calls; the SDK throws its ApiError, which also carries `status`.
+export class HttpError extends Error {
+    constructor(message: string, readonly status: number, readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export const httpErrorFrom = async (response: Response, label: string): Promise<HttpError> => {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    let detail = '';
+    try {
+        const body = await response.text();
+        detail = serverMessage(body) ?? body.slice(0, 200);
+    } catch {
+        // The status alone will do.
+    }
+    return new HttpError(`${label} responded with ${response.status}${detail ? `: ${detail}` : ''}`, response.status, retryAfter > 0 ? retryAfter * 1000 : undefined);
+};
+
+interface ErrorInfo {
+    message: string;
+    status?: number;
+    retryAfterMs?: number;
+}
+
+// Google APIs answer with `{"error": {"message": ..., "details": [{"retryDelay": "30s"}]}}`, which the SDK
+// puts verbatim into the error message.
+const parseServerBody = (text: string) => {
+    const start = text.indexOf('{');
+    if (start === -1) return null;
+    try {
+        return JSON.parse(text.slice(start))?.error ?? null;
+    } catch {
+        return null;
+    }
+};
+
+const serverMessage = (text: string): string | undefined => {
+    const message = parseServerBody(text)?.message;
+    return typeof message === 'string' ? message : undefined;
+};
+
+const STATUS_LABELS: Record<number, string> = {
+    400: "The request was rejected",
+    401: "The API key was rejected",
+    403: "The API key is not allowed to do this",
+    404: "The model was not found",
+    429: "Rate limited",
+    500: "The server hit an error",
+    503: "The service is overloaded",
+    504: "The server timed out",
+};
+
+const readError = (e: unknown): ErrorInfo => {
+    if (!(e instanceof Error)) return { message: String(e) };
+    const status = 'status' in e && typeof e.status === 'number' ? e.status : undefined;
+    if (e instanceof HttpError) return { message: e.message, status, retryAfterMs: e.retryAfterMs };
+
+    const body = parseServerBody(e.message);
+    const delay = body?.details?.find((d: unknown) => typeof d === 'object' && d !== null && 'retryDelay' in d && typeof d.retryDelay === 'string')?.retryDelay;
+    const retryAfterMs = delay ? parseFloat(delay) * 1000 : undefined;
+    if (typeof body?.message !== 'string') return { message: e.message, status, retryAfterMs };
+    const label = status ? STATUS_LABELS[status] : undefined;
+    return { message: label ? `${label}: ${body.message}` : body.message, status, retryAfterMs };
+};
+
+// A readable reason for any failure; SDK errors otherwise surface as a wall of JSON.
+export const describeError = (e: unknown): string => readError(e).message || "unknown error";
+
+// fetch rejects with a TypeError when the network itself fails.
+const isRetryable = (e: unknown, info: ErrorInfo) =>
+    info.status !== undefined ? RETRYABLE_STATUSES.has(info.status) : e instanceof TypeError;
+
+// Waits `ms`, or rejects with the signal's reason as soon as it aborts.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    const onAbort = () => { clearTimeout(timer); reject(signal.reason); };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs `request`, retrying it while it fails for a transient reason. The last failure is rethrown with a
+// readable message; aborting the signal stops both the request and any wait between attempts.
+export const withRetry = async <T>(request: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await request();
+        } catch (e) {
+            signal?.throwIfAborted();
+            const info = readError(e);
+            const delay = info.retryAfterMs ?? Math.min(BASE_DELAY_MS * 2 ** (attempt - 1), MAX_DELAY_MS) * (0.75 + Math.random() * 0.5);
+            if (attempt >= MAX_ATTEMPTS || !isRetryable(e, info) || delay > MAX_SERVER_DELAY_MS) {
+                if (!(e instanceof Error) || e instanceof HttpError) throw e;
+                throw Object.assign(new Error(info.message, { cause: e }), { status: info.status });
+            }
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,102 @@
+import { MediaVersion, Session } from '../types';
+import { createVersionId, getAncestry } from './versionTree';
+
+export type SessionSort = 'recent' | 'newest' | 'oldest' | 'name';
+
+export const SESSION_SORTS: { id: SessionSort, label: string }[] = [
+    { id: 'recent', label: 'Recently used' },
+    { id: 'newest', label: 'Newest' },
+    { id: 'oldest', label: 'Oldest' },
+    { id: 'name', label: 'Name' },
+];
+
+const ORIGINAL_PROMPT = 'Original';
+const MAX_AUTO_TITLE = 40;
+
+// A session not yet given its number; `addSessions` numbers it on the way into the list.
+export type NewSession = Omit<Session, 'number'>;
+
+export const createSession = (src: string, prompt: string, type: MediaVersion['type'] = 'image', original?: string): NewSession => {
+    const now = Date.now();
+    return {
+        // Random rather than a timestamp: several files dropped at once open within the same millisecond.
+        id: crypto.randomUUID(),
+        versions: [{ id: createVersionId(), parentId: null, src, prompt, type, ...(original ? { original } : {}) }],
+        transcript: [],
+        currentIndex: 0,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+// Until the user names a session it is called after the first thing asked of the model: the description of
+// a generated image, or the first edit of an upload. Local adjustments ("Rotate 90°") make poor titles.
+export const autoTitle = (session: Session): string | null => {
+    const prompt = session.versions.find(v => !v.operation && v.prompt !== ORIGINAL_PROMPT)?.prompt.trim();
+    if (!prompt) return null;
+    const title = prompt.length > MAX_AUTO_TITLE ? `${prompt.slice(0, MAX_AUTO_TITLE - 1).trimEnd()}…` : prompt;
+    return title[0].toUpperCase() + title.slice(1);
+};
+
+export const sessionLabel = (session: Session) => session.title ?? autoTitle(session) ?? `SESSION_${session.number}`;
+
+export const nextSessionNumber = (sessions: Session[]) => Math.max(0, ...sessions.map(s => s.number)) + 1;
+
+// Appends `added`, numbered after the highest number in use.
+export const addSessions = (sessions: Session[], added: NewSession[]): Session[] => {
+    let next = nextSessionNumber(sessions);
+    return [...sessions, ...added.map(session => ({ ...session, number: next++ }))];
+};
+
+// Puts a deleted session back where it was: sessions are listed in the order they were numbered, so before the
+// first one with a higher number. Only if its number was handed out again in the meantime (it was the last
+// one, and a session was added before the undo) does it come back at the end under a new one.
+export const restoreSession = (sessions: Session[], session: Session): Session[] => {
+    if (sessions.some(s => s.number === session.number)) {
+        const { number: _, ...rest } = session;
+        return addSessions(sessions, [rest]);
+    }
+    const index = sessions.findIndex(s => s.number > session.number);
+    return index === -1 ? [...sessions, session] : [...sessions.slice(0, index), session, ...sessions.slice(index)];
+};
+
+// Version ids are kept, so transcript entries in the copy still point at their versions.
+export const duplicateSession = ({ number: _, ...session }: Session, title: string): NewSession => {
+    const now = Date.now();
+    return { ...session, id: crypto.randomUUID(), title, createdAt: now, updatedAt: now };
+};
+
+// A new session holding only the path from the original to `versionId`, with a fresh conversation.
+export const forkSession = (session: Session, versionId: string, title: string): NewSession => {
+    const versions = getAncestry(session, versionId);
+    const now = Date.now();
+    return { id: crypto.randomUUID(), title, versions, transcript: [], currentIndex: versions.length - 1, createdAt: now, updatedAt: now };
+};
+
+export interface SessionListing {
+    session: Session;
+    // The prompt that matched the search, when it wasn't the title.
+    match?: string;
+}
+
+// Matches titles and every prompt in the version tree; an empty query lists everything.
+export const findSessions = (sessions: Session[], query: string, sort: SessionSort): SessionListing[] => {
+    const needle = query.trim().toLowerCase();
+    const listings: SessionListing[] = [];
+    for (const session of sessions) {
+        if (!needle || sessionLabel(session).toLowerCase().includes(needle)) {
+            listings.push({ session });
+            continue;
+        }
+        const prompt = session.versions.find(v => v.prompt.toLowerCase().includes(needle))?.prompt;
+        if (prompt) listings.push({ session, match: prompt });
+    }
+
+    const compare: Record<SessionSort, (a: SessionListing, b: SessionListing) => number> = {
+        recent: (a, b) => b.session.updatedAt - a.session.updatedAt,
+        newest: (a, b) => b.session.createdAt - a.session.createdAt || b.session.number - a.session.number,
+        oldest: (a, b) => a.session.createdAt - b.session.createdAt || a.session.number - b.session.number,
+        name: (a, b) => sessionLabel(a.session).localeCompare(sessionLabel(b.session), undefined, { numeric: true }),
+    };
+    return listings.sort(compare[sort]);
+};
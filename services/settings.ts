@@ -0,0 +1,120 @@
+// Assistant configuration, persisted in localStorage like the active provider. Read at the moment it is
+// needed (a new live connection, an edit request), so changes apply without a reload.
+
+export type Verbosity = 'terse' | 'balanced' | 'chatty';
+
+// Limits on this month's usage; 0 means no limit.
+export interface UsageBudgets {
+    images: number;
+    liveMinutes: number;
+    tokens: number;
+}
+
+export interface AssistantSettings {
+    voice: string;
+    // BCP-47 codes; an empty string lets the model follow the user.
+    replyLanguage: string;
+    transcriptionLanguage: string;
+    promptPresetId: string;
+    // Used instead of the preset's persona when `promptPresetId` is 'custom'.
+    customPrompt: string;
+    editModel: string;
+    liveModel: string;
+    verbosity: Verbosity;
+    budgets: UsageBudgets;
+}
+
+export interface PromptPreset {
+    id: string;
+    label: string;
+    persona: string;
+}
+
+export const VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+
+export const LANGUAGES: { code: string, label: string }[] = [
+    { code: '', label: 'Automatic' },
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'es-ES', label: 'Spanish' },
+    { code: 'fr-FR', label: 'French' },
+    { code: 'de-DE', label: 'German' },
+    { code: 'it-IT', label: 'Italian' },
+    { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+    { code: 'nl-NL', label: 'Dutch' },
+    { code: 'ja-JP', label: 'Japanese' },
+    { code: 'ko-KR', label: 'Korean' },
+    { code: 'hi-IN', label: 'Hindi' },
+];
+
+export const EDIT_MODELS = ['gemini-2.5-flash-image'];
+export const LIVE_MODELS = ['gemini-2.5-flash-native-audio-preview-09-2025', 'gemini-live-2.5-flash-preview'];
+
+export const PROMPT_PRESETS: PromptPreset[] = [
+    {
+        id: 'forgy',
+        label: 'Forgy (default)',
+        persona: "You are Forgy, a professional but cool AI editor. You see the image the user has uploaded. LISTEN to the user completely. Do not interrupt. Wait for a specific command to edit the image before suggesting things. If the user just says hello, say hello back briefly.",
+    },
+    {
+        id: 'art-director',
+        label: 'Art director',
+        persona: "You are Forgy, an experienced art director. You see the image the user is working on. Listen fully, carry out what is asked, and when it helps, give one short piece of feedback on composition, colour or lighting.",
+    },
+    {
+        id: 'teacher',
+        label: 'Patient teacher',
+        persona: "You are Forgy, a friendly photo-editing teacher. You see the image the user is working on. Carry out what is asked and briefly explain what changed and why, in plain words, so the user learns as they go.",
+    },
+    { id: 'custom', label: 'Custom', persona: '' },
+];
+
+// Tool guidance is not part of any persona: the agent needs it whatever its personality.
+const TOOL_GUIDE = "Only use the editImage tool when explicitly asked. Use generateImage to create a new picture from a description and composeImages when the user wants to bring in other images such as a logo or a style reference. Use animateImage to turn the picture into a short video clip. The user can save recipes, named chains of edits: find them with listRecipes and run one with applyRecipe, asking the user for any placeholder values it needs. For rotating, flipping, cropping, resizing, brightness, contrast, saturation or simple filters use the matching local tool instead of editImage. You can also drive the editor itself: undo, redo, goToVersion, compareWithOriginal, zoom, newSession, exportImage, exportSession and renameSession. Every tool returns a result; if it contains an error, tell the user what went wrong instead of pretending it worked and offer to try again. After an edit succeeds you are shown the new image; look at it before describing it.";
+
+const VERBOSITY_GUIDE: Record<Verbosity, string> = {
+    terse: "Keep every reply to one short sentence. Confirm actions in a few words.",
+    balanced: "Keep replies short: one or two sentences.",
+    chatty: "Feel free to be conversational and enthusiastic, but stay focused on the user's image.",
+};
+
+export const DEFAULT_SETTINGS: AssistantSettings = {
+    voice: 'Zephyr',
+    replyLanguage: '',
+    transcriptionLanguage: '',
+    promptPresetId: 'forgy',
+    customPrompt: '',
+    editModel: EDIT_MODELS[0],
+    liveModel: LIVE_MODELS[0],
+    verbosity: 'balanced',
+    budgets: { images: 0, liveMinutes: 0, tokens: 0 },
+};
+
+const SETTINGS_KEY = 'forgy.settings';
+
+let cached: AssistantSettings | null = null;
+
+export const getSettings = (): AssistantSettings => {
+    if (cached) return cached;
+    try {
+        // Merged over the defaults so settings saved by an older version pick up new fields.
+        cached = { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? '{}') };
+    } catch {
+        cached = { ...DEFAULT_SETTINGS };
+    }
+    return cached;
+};
+
+export const saveSettings = (settings: AssistantSettings) => {
+    cached = settings;
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const languageLabel = (code: string) => LANGUAGES.find(l => l.code === code)?.label ?? code;
+
+export const buildSystemInstruction = (settings: AssistantSettings): string => {
+    const preset = PROMPT_PRESETS.find(p => p.id === settings.promptPresetId) ?? PROMPT_PRESETS[0];
+    const persona = preset.id === 'custom' && settings.customPrompt.trim() ? settings.customPrompt.trim() : preset.persona || PROMPT_PRESETS[0].persona;
+    const language = settings.replyLanguage ? `Always reply in ${languageLabel(settings.replyLanguage)}.` : "Reply in the language the user speaks.";
+    return [persona, VERBOSITY_GUIDE[settings.verbosity], language, TOOL_GUIDE].join(' ');
+};
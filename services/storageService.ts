@@ -0,0 +1,294 @@
+import { MediaVersion, Session, TranscriptEntry } from '../types';
+import { blobToDataUrl, dataUrlToBlob } from './mediaUtils';
+import { parseLegacyLine } from './transcript';
+import { createVersionId } from './versionTree';
+
+// Bump SCHEMA_VERSION whenever the shape of a persisted session changes, describe the previous shape as a
+// LegacyVn type and add the step that upgrades it to `migrate`.
+export const SCHEMA_VERSION = 5;
+
+const DB_NAME = 'forgy';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+const BLOBS_STORE = 'blobs';
+
+interface StoredVersion {
+    id: string;
+    parentId: string | null;
+    blobKey: string;
+    // Full-resolution original of an imported image; absent when `blobKey` already is full size.
+    originalBlobKey?: string;
+    prompt: string;
+    type: MediaVersion['type'];
+    operation?: MediaVersion['operation'];
+}
+
+interface StoredSession {
+    schemaVersion: typeof SCHEMA_VERSION;
+    id: string;
+    number: number;
+    title?: string;
+    versions: StoredVersion[];
+    transcript: TranscriptEntry[];
+    currentIndex: number;
+    position: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// What earlier schema versions wrote, as far as their migrations need to know.
+interface LegacyV1Session extends Omit<StoredSession, 'schemaVersion' | 'number' | 'versions' | 'transcript' | 'createdAt'> {
+    schemaVersion: 1;
+    // A linear history: no ids or parents yet.
+    versions: Omit<StoredVersion, 'id' | 'parentId'>[];
+    transcript: string[];
+}
+
+interface LegacyV2Session extends Omit<LegacyV1Session, 'schemaVersion' | 'versions'> {
+    schemaVersion: 2;
+    versions: StoredVersion[];
+}
+
+interface LegacyV3Session extends Omit<LegacyV2Session, 'schemaVersion' | 'transcript'> {
+    schemaVersion: 3;
+    transcript: TranscriptEntry[];
+}
+
+interface LegacyV4Session extends Omit<StoredSession, 'schemaVersion' | 'number'> {
+    schemaVersion: 4;
+}
+
+type StoredRecord = LegacyV1Session | LegacyV2Session | LegacyV3Session | LegacyV4Session | StoredSession;
+
+// v1 stored a linear history; turn it into a single-branch tree.
+const fromV1 = (record: LegacyV1Session): LegacyV2Session => {
+    const ids = record.versions.map(() => createVersionId());
+    const versions = record.versions.map((v, i) => ({ ...v, id: ids[i], parentId: i === 0 ? null : ids[i - 1] }));
+    return { ...record, schemaVersion: 2, versions };
+};
+
+// v2 kept the transcript as markdown strings; the original times are unknown, so use the last save.
+const fromV2 = (record: LegacyV2Session): LegacyV3Session => ({
+    ...record,
+    schemaVersion: 3,
+    transcript: record.transcript.map(line => parseLegacyLine(line, record.updatedAt ?? Date.now())),
+});
+
+// v3 had no creation time; ids were still `Date.now()` strings then, so most sessions can recover it.
+const fromV3 = (record: LegacyV3Session): LegacyV4Session => ({
+    ...record,
+    schemaVersion: 4,
+    createdAt: Number(record.id) > 0 ? Number(record.id) : record.updatedAt ?? Date.now(),
+    updatedAt: record.updatedAt ?? Date.now(),
+});
+
+// v4 numbered sessions by their place in the list; keep the numbers they were last shown with.
+const fromV4 = (record: LegacyV4Session): StoredSession => ({ ...record, schemaVersion: SCHEMA_VERSION, number: record.position + 1 });
+
+// Upgrades a record one schema version at a time until it is current.
+const migrate = (record: StoredRecord): StoredSession => {
+    // Read up front: a record from an unknown version narrows to `never` below.
+    const { schemaVersion } = record;
+    switch (record.schemaVersion) {
+        case 1: return migrate(fromV1(record));
+        case 2: return migrate(fromV2(record));
+        case 3: return migrate(fromV3(record));
+        case 4: return migrate(fromV4(record));
+        case SCHEMA_VERSION: return record;
+        default: throw new Error(`No migration from schema version ${schemaVersion}`);
+    }
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (!window.indexedDB) {
+            reject(new Error("IndexedDB is not available"));
+            return;
+        }
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(SESSIONS_STORE)) db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+            if (!db.objectStoreNames.contains(BLOBS_STORE)) db.createObjectStore(BLOBS_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+};
+
+// Blobs are content-addressed so identical images (e.g. a duplicated original) are stored once.
+const blobKeyCache = new WeakMap<MediaVersion, string>();
+const originalKeyCache = new WeakMap<MediaVersion, string>();
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const storeBlob = async (version: MediaVersion, src: string, cache: WeakMap<MediaVersion, string>, existingBlobs: Set<string>, pendingBlobs: Map<string, Blob>): Promise<string> => {
+    let blobKey = cache.get(version);
+    let blob: Blob | null = null;
+    if (!blobKey) {
+        blob = dataUrlToBlob(src);
+        blobKey = await hashBlob(blob);
+        cache.set(version, blobKey);
+    }
+    if (!existingBlobs.has(blobKey) && !pendingBlobs.has(blobKey)) {
+        pendingBlobs.set(blobKey, blob ?? dataUrlToBlob(src));
+    }
+    return blobKey;
+};
+
+const toStoredVersion = async (version: MediaVersion, existingBlobs: Set<string>, pendingBlobs: Map<string, Blob>): Promise<StoredVersion> => {
+    const blobKey = await storeBlob(version, version.src, blobKeyCache, existingBlobs, pendingBlobs);
+    const originalBlobKey = version.original ? await storeBlob(version, version.original, originalKeyCache, existingBlobs, pendingBlobs) : undefined;
+    return { id: version.id, parentId: version.parentId, blobKey, originalBlobKey, prompt: version.prompt, type: version.type, operation: version.operation };
+};
+
+// Session objects are replaced (never mutated) on every change, so identity tells us what is dirty. A session
+// that moved in the list (another was deleted, say) is dirty too, since its stored position is out of date.
+const savedSessions = new WeakSet<Session>();
+const savedPositions = new Map<string, number>();
+
+// Returns sessions in their saved order along with the one edited most recently, so the UI can reopen it.
+export const loadSessions = async (): Promise<{ sessions: Session[], lastEditedId: string | null }> => {
+    const db = await openDb();
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readonly');
+    const records: StoredRecord[] = await requestToPromise(tx.objectStore(SESSIONS_STORE).getAll());
+    const blobsStore = tx.objectStore(BLOBS_STORE);
+
+    // Migrated records are left dirty so the next autosave writes them back in the current schema.
+    const outdatedIds = new Set(records.filter(r => r.schemaVersion < SCHEMA_VERSION).map(r => r.id));
+    const stored = records.map(migrate).sort((a, b) => a.position - b.position);
+    // Numbers carried over from v4 positions can repeat if those positions were stale; a repeat gets a new one.
+    const numbers = new Set<number>();
+    for (const record of stored) {
+        if (numbers.has(record.number)) record.number = Math.max(...numbers) + 1;
+        numbers.add(record.number);
+    }
+    const blobs = new Map<string, Blob>();
+    for (const record of stored) {
+        for (const v of record.versions) {
+            for (const key of [v.blobKey, v.originalBlobKey]) {
+                if (key && !blobs.has(key)) blobs.set(key, await requestToPromise(blobsStore.get(key)));
+            }
+        }
+    }
+
+    const sessions: Session[] = [];
+    let lastEdited: StoredSession | null = null;
+    for (const record of stored) {
+        const versions: MediaVersion[] = [];
+        for (const v of record.versions) {
+            const blob = blobs.get(v.blobKey);
+            if (!blob) continue;
+            const version: MediaVersion = { id: v.id, parentId: v.parentId, src: await blobToDataUrl(blob), prompt: v.prompt, type: v.type, operation: v.operation };
+            blobKeyCache.set(version, v.blobKey);
+            const original = v.originalBlobKey ? blobs.get(v.originalBlobKey) : undefined;
+            if (original) {
+                version.original = await blobToDataUrl(original);
+                originalKeyCache.set(version, v.originalBlobKey);
+            }
+            versions.push(version);
+        }
+        if (versions.length === 0) continue;
+        const session: Session = {
+            id: record.id,
+            number: record.number,
+            title: record.title,
+            versions,
+            transcript: record.transcript,
+            currentIndex: Math.min(record.currentIndex, versions.length - 1),
+            createdAt: record.createdAt,
+            updatedAt: record.updatedAt,
+        };
+        if (!outdatedIds.has(session.id)) savedSessions.add(session);
+        savedPositions.set(session.id, record.position);
+        sessions.push(session);
+        if (!lastEdited || record.updatedAt > lastEdited.updatedAt) lastEdited = record;
+    }
+    return { sessions, lastEditedId: lastEdited?.id ?? null };
+};
+
+let saveQueue: Promise<void> = Promise.resolve();
+
+// Saves are serialised so a slow write can never be overtaken by an older snapshot.
+export const saveSessions = (sessions: Session[]): Promise<void> => {
+    const run = saveQueue.then(() => writeSessions(sessions));
+    saveQueue = run.catch(() => {});
+    return run;
+};
+
+const writeSessions = async (sessions: Session[]): Promise<void> => {
+    const db = await openDb();
+    const readTx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readonly');
+    const storedIds = new Set(await requestToPromise(readTx.objectStore(SESSIONS_STORE).getAllKeys()) as string[]);
+    const existingBlobs = new Set(await requestToPromise(readTx.objectStore(BLOBS_STORE).getAllKeys()) as string[]);
+
+    const dirty = sessions.filter((s, i) => !savedSessions.has(s) || !storedIds.has(s.id) || savedPositions.get(s.id) !== i);
+    const liveIds = new Set(sessions.map(s => s.id));
+    const removedIds = [...storedIds].filter(id => !liveIds.has(id));
+    if (dirty.length === 0 && removedIds.length === 0) return;
+
+    // Hash and convert outside the write transaction; IndexedDB transactions auto-commit across awaits.
+    const pendingBlobs = new Map<string, Blob>();
+    const records: StoredSession[] = [];
+    for (const s of dirty) {
+        const versions: StoredVersion[] = [];
+        for (const v of s.versions) versions.push(await toStoredVersion(v, existingBlobs, pendingBlobs));
+        records.push({
+            schemaVersion: SCHEMA_VERSION,
+            id: s.id,
+            number: s.number,
+            title: s.title,
+            versions,
+            transcript: s.transcript,
+            currentIndex: s.currentIndex,
+            position: sessions.indexOf(s),
+            createdAt: s.createdAt,
+            updatedAt: s.updatedAt,
+        });
+    }
+
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readwrite');
+    const sessionsStore = tx.objectStore(SESSIONS_STORE);
+    const blobsStore = tx.objectStore(BLOBS_STORE);
+    pendingBlobs.forEach((blob, key) => blobsStore.put(blob, key));
+    records.forEach(r => sessionsStore.put(r));
+    removedIds.forEach(id => sessionsStore.delete(id));
+    await transactionDone(tx);
+    records.forEach((r, i) => { savedSessions.add(dirty[i]); savedPositions.set(r.id, r.position); });
+    removedIds.forEach(id => savedPositions.delete(id));
+
+    await collectGarbage(db);
+};
+
+// Drops blobs no longer referenced by any stored session.
+const collectGarbage = async (db: IDBDatabase): Promise<void> => {
+    const tx = db.transaction([SESSIONS_STORE, BLOBS_STORE], 'readwrite');
+    const records: StoredSession[] = await requestToPromise(tx.objectStore(SESSIONS_STORE).getAll());
+    const blobKeys = await requestToPromise(tx.objectStore(BLOBS_STORE).getAllKeys()) as string[];
+    const referenced = new Set(records.flatMap(r => r.versions.flatMap(v => v.originalBlobKey ? [v.blobKey, v.originalBlobKey] : [v.blobKey])));
+    blobKeys.filter(k => !referenced.has(k)).forEach(k => tx.objectStore(BLOBS_STORE).delete(k));
+    await transactionDone(tx);
+};
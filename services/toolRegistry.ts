@@ -0,0 +1,168 @@
+import { FunctionDeclaration, Schema, Type } from '@google/genai';
+
+export interface ParameterSchema {
+    type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
+    description?: string;
+    enum?: readonly string[];
+    items?: ParameterSchema;
+    minimum?: number;
+    maximum?: number;
+}
+
+export interface ToolSchema {
+    name: string;
+    description: string;
+    parameters: Record<string, ParameterSchema>;
+    required?: readonly string[];
+}
+
+// `image` (a data URL) is shown to the live model as a picture rather than sent inside the JSON response.
+// `versionId` is for the app's own records (the transcript) and is stripped before the model sees the result.
+export type ToolResult = ({ success: true; image?: string; versionId?: string } & Record<string, unknown>) | { error: string };
+
+// What a parameter's value is once `validateValue` has checked and coerced it.
+type ParamValue<P> =
+    P extends { type: 'string'; enum: readonly (infer E extends string)[] } ? E
+    : P extends { type: 'string' } ? string
+    : P extends { type: 'number' | 'integer' } ? number
+    : P extends { type: 'boolean' } ? boolean
+    : P extends { type: 'array'; items: infer I } ? ParamValue<I>[]
+    : P extends { type: 'array' } ? unknown[]
+    : never;
+
+type RequiredKeys<S extends ToolSchema> = S extends { required: readonly (infer K)[] } ? K : never;
+
+// The arguments `validateArgs` lets through for `S`, read off the schema itself so the two can't drift apart.
+export type ToolArgs<S extends ToolSchema> =
+    { [K in keyof S['parameters'] & RequiredKeys<S>]: ParamValue<S['parameters'][K]> }
+    & { [K in Exclude<keyof S['parameters'], RequiredKeys<S>>]?: ParamValue<S['parameters'][K]> };
+
+// Ties a schema to the handler signature that must implement it: `validate` only lets through arguments
+// that match the schema, typed as `Args`.
+export interface ToolSpec<Args> {
+    schema: ToolSchema;
+    validate: (args: unknown) => { args: Args } | { error: string };
+}
+
+// `const` keeps the schema's literals (types, enums, required names), which is what `ToolArgs` is derived from.
+export const defineTool = <const S extends ToolSchema>(schema: S): ToolSpec<ToolArgs<S>> => ({
+    schema,
+    validate: args => validateArgs(schema, args),
+});
+
+// Keyed by tool name: `A` maps each name to its arguments, so a spec and its handler always agree.
+export type ToolSpecs<A> = { [K in keyof A]: ToolSpec<A[K]> };
+
+export type ToolHandlers<A> = {
+    [K in keyof A]: (args: A[K]) => Promise<ToolResult> | ToolResult;
+};
+
+const GENAI_TYPES: Record<ParameterSchema['type'], Type> = {
+    string: Type.STRING,
+    number: Type.NUMBER,
+    integer: Type.INTEGER,
+    boolean: Type.BOOLEAN,
+    array: Type.ARRAY,
+};
+
+const toGenaiSchema = (param: ParameterSchema): Schema => ({
+    type: GENAI_TYPES[param.type],
+    description: param.description,
+    enum: param.enum && [...param.enum],
+    items: param.items ? toGenaiSchema(param.items) : undefined,
+    minimum: param.minimum,
+    maximum: param.maximum,
+});
+
+export const toFunctionDeclaration = ({ name, description, parameters, required }: ToolSchema): FunctionDeclaration => ({
+    name,
+    description,
+    parameters: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(Object.entries(parameters).map(([key, param]) => [key, toGenaiSchema(param)])),
+        required: required && [...required],
+    },
+});
+
+// Checks (and lightly coerces, e.g. "3" -> 3) a single value; returns an error message or the cleaned value.
+const validateValue = (path: string, param: ParameterSchema, value: unknown): { value: unknown } | { error: string } => {
+    switch (param.type) {
+        case 'string': {
+            if (typeof value !== 'string' && typeof value !== 'number') return { error: `${path} must be a string` };
+            const text = String(value);
+            if (param.enum && !param.enum.includes(text)) return { error: `${path} must be one of ${param.enum.join(', ')}` };
+            return { value: text };
+        }
+        case 'number':
+        case 'integer': {
+            const number = typeof value === 'string' ? Number(value) : value;
+            if (typeof number !== 'number' || !Number.isFinite(number)) return { error: `${path} must be a number` };
+            if (param.type === 'integer' && !Number.isInteger(number)) return { error: `${path} must be a whole number` };
+            if (param.minimum !== undefined && number < param.minimum) return { error: `${path} must be at least ${param.minimum}` };
+            if (param.maximum !== undefined && number > param.maximum) return { error: `${path} must be at most ${param.maximum}` };
+            return { value: number };
+        }
+        case 'boolean': {
+            if (typeof value === 'boolean') return { value };
+            if (value === 'true' || value === 'false') return { value: value === 'true' };
+            return { error: `${path} must be true or false` };
+        }
+        case 'array': {
+            if (!Array.isArray(value)) return { error: `${path} must be a list` };
+            const items: unknown[] = [];
+            for (let i = 0; i < value.length; i++) {
+                const result = param.items ? validateValue(`${path}[${i}]`, param.items, value[i]) : { value: value[i] };
+                if ('error' in result) return result;
+                items.push(result.value);
+            }
+            return { value: items };
+        }
+    }
+};
+
+export const validateArgs = <S extends ToolSchema>(schema: S, args: unknown): { args: ToolArgs<S> } | { error: string } => {
+    const input = (args ?? {}) as Record<string, unknown>;
+    if (typeof input !== 'object' || Array.isArray(input)) return { error: "Arguments must be an object" };
+    const missing = (schema.required ?? []).filter(key => input[key] === undefined || input[key] === null || input[key] === '');
+    if (missing.length > 0) return { error: `Missing ${missing.join(', ')}` };
+
+    const cleaned: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(input)) {
+        const param = schema.parameters[key];
+        if (!param) return { error: `Unexpected argument ${key}` };
+        if (value === undefined || value === null) continue;
+        const result = validateValue(key, param, value);
+        if ('error' in result) return result;
+        cleaned[key] = result.value;
+    }
+    // Every key present was checked against its parameter and every required one is there: that is `ToolArgs<S>`.
+    return { args: cleaned as ToolArgs<S> };
+};
+
+export interface ToolRegistry {
+    declarations: FunctionDeclaration[];
+    call: (name: string, args: unknown) => Promise<ToolResult>;
+}
+
+export const createToolRegistry = <A>(specs: ToolSpecs<A>, handlers: ToolHandlers<NoInfer<A>>): ToolRegistry => {
+    const isTool = (name: string): name is Extract<keyof A, string> => Object.hasOwn(specs, name);
+
+    const run = async <K extends keyof A>(name: K, args: unknown): Promise<ToolResult> => {
+        const validated = specs[name].validate(args);
+        if ('error' in validated) return { error: `Invalid arguments for ${String(name)}: ${validated.error}` };
+        return handlers[name](validated.args);
+    };
+
+    return {
+        declarations: Object.keys(specs).filter(isTool).map(name => toFunctionDeclaration(specs[name].schema)),
+        call: async (name, args) => {
+            if (!isTool(name)) return { error: `Unknown tool "${name}"` };
+            try {
+                return await run(name, args);
+            } catch (e) {
+                console.error(e);
+                return { error: e instanceof Error ? e.message : `${name} failed` };
+            }
+        },
+    };
+};
@@ -0,0 +1,76 @@
+import { Session, TranscriptEntry } from '../types';
+import { sessionLabel } from './sessions';
+import { indexOfVersion } from './versionTree';
+
+export const createEntry = (speaker: TranscriptEntry['speaker'], text: string, details: Partial<Omit<TranscriptEntry, 'id' | 'speaker' | 'text'>> = {}): TranscriptEntry => ({
+    id: crypto.randomUUID(),
+    speaker,
+    text,
+    timestamp: Date.now(),
+    ...details,
+});
+
+const INTERRUPTED_MARKUP = /…?\s*<span class="text-gray-600 italic">\(interrupted\)<\/span>\s*$/;
+
+const unescapeHtml = (text: string) => text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+// Transcripts used to be markdown-ish HTML strings ("**You:** ...", "**AI:** ..."). Anything else is kept as
+// an assistant line rather than dropped.
+export const parseLegacyLine = (line: string, timestamp: number): TranscriptEntry => {
+    const match = line.match(/^\*\*(You|AI):\*\*\s?([\s\S]*)$/);
+    const speaker = match?.[1] === 'You' ? 'user' : 'assistant';
+    let text = match ? match[2] : line;
+    const interrupted = INTERRUPTED_MARKUP.test(text);
+    if (interrupted) text = text.replace(INTERRUPTED_MARKUP, '');
+    return { id: crypto.randomUUID(), speaker, text: unescapeHtml(text), timestamp, ...(interrupted ? { interrupted } : {}) };
+};
+
+// Numbered like the timeline's VERSION n labels; null when the version no longer exists.
+export const versionNumber = (session: Session, versionId: string | undefined): number | null => {
+    const index = versionId ? indexOfVersion(session, versionId) : -1;
+    return index === -1 ? null : index + 1;
+};
+
+export interface TranscriptMatch {
+    session: Session;
+    entry: TranscriptEntry;
+}
+
+// Case-insensitive; every word of the query must appear in the entry or its tool calls' arguments.
+export const searchTranscripts = (sessions: Session[], query: string): TranscriptMatch[] => {
+    const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+    const matches: TranscriptMatch[] = [];
+    for (const session of sessions) {
+        for (const entry of session.transcript) {
+            const haystack = [entry.text, ...(entry.toolCalls ?? []).map(call => `${call.name} ${JSON.stringify(call.args)}`)].join(' ').toLowerCase();
+            if (words.every(word => haystack.includes(word))) matches.push({ session, entry });
+        }
+    }
+    return matches;
+};
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+export const transcriptToMarkdown = (session: Session): string => {
+    const lines = [`# ${sessionLabel(session)}`, '', `_Exported ${formatTime(Date.now())}_`, ''];
+    for (const entry of session.transcript) {
+        const version = versionNumber(session, entry.versionId);
+        const heading = [entry.speaker === 'user' ? '**You**' : '**Forgy**', formatTime(entry.timestamp), version ? `VERSION ${version}` : null].filter(Boolean).join(' · ');
+        lines.push(heading, '');
+        if (entry.text) lines.push(entry.interrupted ? `${entry.text}… _(interrupted)_` : entry.text, '');
+        for (const call of entry.toolCalls ?? []) {
+            const produced = versionNumber(session, call.versionId);
+            const outcome = call.error ? ` failed: ${call.error}` : produced ? ` → VERSION ${produced}` : '';
+            lines.push(`- \`${call.name}(${JSON.stringify(call.args)})\`${outcome}`);
+        }
+        if (entry.toolCalls?.length) lines.push('');
+    }
+    return lines.join('\n');
+};
+
+export const transcriptToJson = (session: Session): string => JSON.stringify({
+    session: { id: session.id, title: sessionLabel(session) },
+    exportedAt: new Date().toISOString(),
+    entries: session.transcript.map(entry => ({ ...entry, version: versionNumber(session, entry.versionId) })),
+}, null, 2);
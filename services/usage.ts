@@ -0,0 +1,150 @@
+import { ImageEditProvider } from './providers/types';
+import { UsageBudgets, getSettings } from './settings';
+
+// Counters for what the app spends: generations, live conversation time and model tokens. Kept in
+// localStorage per calendar month (budgets are monthly) plus running totals per session.
+
+export interface UsageTotals {
+    images: number;
+    videos: number;
+    liveSeconds: number;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+interface UsageRecord {
+    // "2026-10"; totals roll over when the month changes.
+    month: string;
+    global: UsageTotals;
+    sessions: Record<string, UsageTotals>;
+}
+
+export const EMPTY_USAGE: UsageTotals = { images: 0, videos: 0, liveSeconds: 0, inputTokens: 0, outputTokens: 0 };
+
+export const BUDGET_LABELS: Record<keyof UsageBudgets, string> = {
+    images: 'image and video generations',
+    liveMinutes: 'live minutes',
+    tokens: 'tokens',
+};
+
+const USAGE_KEY = 'forgy.usage';
+const WARN_AT = 0.8;
+
+const currentMonth = () => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+let cached: UsageRecord | null = null;
+
+const load = (): UsageRecord => {
+    if (!cached) {
+        try {
+            cached = JSON.parse(localStorage.getItem(USAGE_KEY) ?? 'null');
+        } catch {
+            cached = null;
+        }
+        cached ??= { month: currentMonth(), global: { ...EMPTY_USAGE }, sessions: {} };
+    }
+    if (cached.month !== currentMonth()) cached = { ...cached, month: currentMonth(), global: { ...EMPTY_USAGE } };
+    return cached;
+};
+
+const write = (record: UsageRecord) => {
+    cached = record;
+    localStorage.setItem(USAGE_KEY, JSON.stringify(record));
+};
+
+type UsageListener = (warning: string | null) => void;
+const listeners = new Set<UsageListener>();
+
+// Called after every change; `warning` is set when the change crossed 80% or all of a budget.
+export const subscribeUsage = (listener: UsageListener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const getUsage = (): UsageTotals => load().global;
+
+export const getSessionUsage = (sessionId: string): UsageTotals => load().sessions[sessionId] ?? EMPTY_USAGE;
+
+export const totalTokens = (totals: UsageTotals) => totals.inputTokens + totals.outputTokens;
+
+const usedOf = (totals: UsageTotals, kind: keyof UsageBudgets) =>
+    kind === 'images' ? totals.images + totals.videos : kind === 'liveMinutes' ? totals.liveSeconds / 60 : totalTokens(totals);
+
+const add = (totals: UsageTotals, delta: Partial<UsageTotals>): UsageTotals => ({
+    images: totals.images + (delta.images ?? 0),
+    videos: totals.videos + (delta.videos ?? 0),
+    liveSeconds: totals.liveSeconds + (delta.liveSeconds ?? 0),
+    inputTokens: totals.inputTokens + (delta.inputTokens ?? 0),
+    outputTokens: totals.outputTokens + (delta.outputTokens ?? 0),
+});
+
+// `sessionId` is null for work that belongs to no session, such as batch runs; it still counts globally.
+export const recordUsage = (sessionId: string | null, delta: Partial<UsageTotals>) => {
+    const record = load();
+    const before = record.global;
+    const after = add(before, delta);
+    write({
+        ...record,
+        global: after,
+        sessions: sessionId ? { ...record.sessions, [sessionId]: add(record.sessions[sessionId] ?? EMPTY_USAGE, delta) } : record.sessions,
+    });
+
+    const { budgets } = getSettings();
+    let warning: string | null = null;
+    for (const kind of Object.keys(budgets) as (keyof UsageBudgets)[]) {
+        const budget = budgets[kind];
+        if (!budget) continue;
+        const [was, is] = [usedOf(before, kind), usedOf(after, kind)];
+        if (was < budget && is >= budget) warning = `This month's budget of ${budget} ${BUDGET_LABELS[kind]} is used up`;
+        else if (was < budget * WARN_AT && is >= budget * WARN_AT) warning ??= `${Math.round(is)} of this month's ${budget} ${BUDGET_LABELS[kind]} used`;
+    }
+    listeners.forEach(listener => listener(warning));
+};
+
+export const resetUsage = () => {
+    write({ ...load(), global: { ...EMPTY_USAGE } });
+    listeners.forEach(listener => listener(null));
+};
+
+// Why nothing more of `kind` may be started this month, or null while within budget.
+export const budgetBlock = (kind: keyof UsageBudgets): string | null => {
+    const budget = getSettings().budgets[kind];
+    if (!budget || usedOf(getUsage(), kind) < budget) return null;
+    return `This month's budget of ${budget} ${BUDGET_LABELS[kind]} is used up. Raise it in settings to continue.`;
+};
+
+const assertWithinBudget = () => {
+    const blocked = budgetBlock('images') ?? budgetBlock('tokens');
+    if (blocked) throw new Error(blocked);
+};
+
+// Counts every generation made through `provider` (and the tokens it reports) against `sessionId`.
+// Offline providers cost nothing and are returned as they are.
+export const meterProvider = (provider: ImageEditProvider, sessionId: string | null): ImageEditProvider => {
+    if (provider.capabilities.offline) return provider;
+    const onUsage = (tokens: Pick<UsageTotals, 'inputTokens' | 'outputTokens'>) => recordUsage(sessionId, tokens);
+    return {
+        ...provider,
+        edit: async request => {
+            assertWithinBudget();
+            const result = await provider.edit({ ...request, onUsage });
+            recordUsage(sessionId, { images: 1 });
+            return result;
+        },
+        generate: provider.generate && (async request => {
+            assertWithinBudget();
+            const result = await provider.generate!({ ...request, onUsage });
+            recordUsage(sessionId, { images: 1 });
+            return result;
+        }),
+        generateVideo: provider.generateVideo && (async request => {
+            assertWithinBudget();
+            const result = await provider.generateVideo!(request);
+            recordUsage(sessionId, { videos: 1 });
+            return result;
+        }),
+    };
+};
@@ -0,0 +1,66 @@
+import { MediaVersion, Session } from '../types';
+
+export const createVersionId = (): string => crypto.randomUUID();
+
+export const getChildren = (session: Session, versionId: string): MediaVersion[] =>
+    session.versions.filter(v => v.parentId === versionId);
+
+export const getSiblings = (session: Session, version: MediaVersion): MediaVersion[] =>
+    version.parentId === null ? [version] : getChildren(session, version.parentId);
+
+// Root-to-node chain of ancestors, inclusive of the node itself.
+export const getAncestry = (session: Session, versionId: string): MediaVersion[] => {
+    const byId = new Map(session.versions.map(v => [v.id, v]));
+    const chain: MediaVersion[] = [];
+    let node = byId.get(versionId);
+    while (node) {
+        chain.unshift(node);
+        node = node.parentId ? byId.get(node.parentId) : undefined;
+    }
+    return chain;
+};
+
+// Follows the most recently created child until a leaf is reached.
+export const getLatestDescendant = (session: Session, versionId: string): MediaVersion => {
+    let node = session.versions.find(v => v.id === versionId)!;
+    let children = getChildren(session, node.id);
+    while (children.length > 0) {
+        node = children[children.length - 1];
+        children = getChildren(session, node.id);
+    }
+    return node;
+};
+
+// The branch the timeline shows: ancestry of the current version, continued down to its latest tip.
+export const getActiveBranch = (session: Session): MediaVersion[] => {
+    const current = session.versions[session.currentIndex];
+    const ancestry = getAncestry(session, current.id);
+    const tip = getLatestDescendant(session, current.id);
+    return tip.id === current.id ? ancestry : getAncestry(session, tip.id);
+};
+
+export const getLeafCount = (session: Session): number =>
+    session.versions.filter(v => !session.versions.some(c => c.parentId === v.id)).length;
+
+export const indexOfVersion = (session: Session, versionId: string): number =>
+    session.versions.findIndex(v => v.id === versionId);
+
+// `id` may be assigned up front by callers that need to refer to the new version before state settles.
+type NewVersion = Omit<MediaVersion, 'id' | 'parentId'> & { id?: string };
+
+// Appends a child of `parentId` and makes it the current version.
+export const addChildVersion = (session: Session, parentId: string, version: NewVersion): Session =>
+    addVersionChain(session, parentId, [version]);
+
+// Appends versions as a single line of descent under `parentId`; the last one becomes current. Also works on a
+// session that hasn't been numbered yet.
+export const addVersionChain = <S extends Omit<Session, 'number'>>(session: S, parentId: string, chain: NewVersion[]): S => {
+    const added: MediaVersion[] = [];
+    let parent = parentId;
+    for (const version of chain) {
+        const node = { ...version, id: version.id ?? createVersionId(), parentId: parent };
+        added.push(node);
+        parent = node.id;
+    }
+    return { ...session, versions: [...session.versions, ...added], currentIndex: session.versions.length + added.length - 1 };
+};
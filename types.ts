@@ -1,13 +1,66 @@
+// Deterministic, local edits. Crop uses fractions of the source size so it survives resizes.
+export type AdjustmentOperation =
+  | { kind: 'crop'; x: number; y: number; width: number; height: number }
+  | { kind: 'rotate'; degrees: number }
+  | { kind: 'flip'; axis: 'horizontal' | 'vertical' }
+  | { kind: 'resize'; width: number; height: number }
+  | { kind: 'exposure'; stops: number }
+  | { kind: 'contrast'; amount: number }
+  | { kind: 'saturation'; amount: number }
+  | { kind: 'filter'; name: FilterName };
+
+export type FilterName = 'grayscale' | 'sepia' | 'invert' | 'vintage' | 'noir' | 'blur';
 
 export interface MediaVersion {
+  id: string;
+  // The version this one was derived from; null for the session's original upload.
+  parentId: string | null;
   src: string;
+  // Full-resolution image when `src` was downscaled on import; exports use it instead of `src`.
+  original?: string;
   prompt: string;
   type: 'image' | 'video';
+  // Set when the version came from a local adjustment rather than a model, so it can be replayed.
+  operation?: AdjustmentOperation;
+}
+
+export interface ToolCallRecord {
+  name: string;
+  args: Record<string, unknown>;
+  // Set when the call failed.
+  error?: string;
+  // The version the call produced or navigated to, if any.
+  versionId?: string;
+}
+
+export interface TranscriptEntry {
+  id: string;
+  speaker: 'user' | 'assistant';
+  // Plain text; never rendered as HTML.
+  text: string;
+  // Epoch milliseconds.
+  timestamp: number;
+  // How the user's words arrived. Unset for the assistant and for entries migrated from plain-text transcripts.
+  source?: 'voice' | 'typed';
+  // The assistant was cut off by the user mid-reply.
+  interrupted?: boolean;
+  toolCalls?: ToolCallRecord[];
+  // The version this turn produced; clicking the entry shows it.
+  versionId?: string;
 }
 
 export interface Session {
   id: string;
+  // Handed out when the session is added and never reused while it exists: #n in the UI, and what the voice
+  // tools refer to. Sessions without a title are shown as SESSION_n.
+  number: number;
+  // Set by the user.
+  title?: string;
+  // Every node of the version tree in creation order; the tree itself is encoded by `parentId`.
   versions: MediaVersion[];
-  transcript: string[];
+  transcript: TranscriptEntry[];
   currentIndex: number;
+  // Epoch milliseconds. `updatedAt` moves on any change, including switching versions.
+  createdAt: number;
+  updatedAt: number;
 }